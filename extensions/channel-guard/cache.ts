@@ -0,0 +1,201 @@
+/**
+ * Verdict cache for channel-guard.
+ *
+ * Forwarded chains and bot spam repeat the same text many times; each copy
+ * would otherwise pay the full model cost. Verdicts are cached in an LRU keyed
+ * by a hash of the normalized text plus a fingerprint of everything that
+ * shapes the verdict (models, voting, thresholds, chunking), so a changed
+ * model or config never serves a stale verdict. A hit on a text that only
+ * normalizes alike gets the verdict without its offsets, which point into the
+ * text it was computed for. Optionally persisted to
+ * <stateDir>/verdict-cache.json; a file written under a different config is
+ * discarded on load.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import type { GuardVerdict, PluginConfig } from "./index.ts";
+import { resolveModels } from "./models.ts";
+import { normalizeText } from "./normalize.ts";
+
+export interface VerdictCacheConfig {
+  /** Cache verdicts for repeated messages. Default: true */
+  enabled?: boolean;
+  /** Max cached verdicts; least recently used are evicted. Default: 1000 */
+  maxEntries?: number;
+  /** Verdicts expire after this long. Default: 3600 */
+  ttlSeconds?: number;
+  /** Persist the cache to the state dir across restarts. Default: false */
+  persist?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+}
+
+interface CacheEntry {
+  verdict: GuardVerdict;
+  at: number;
+  /** Hash of the exact text the verdict was computed for */
+  text: string;
+}
+
+interface CacheFile {
+  version: number;
+  fingerprint: string;
+  stats: Omit<CacheStats, "size">;
+  entries: [string, CacheEntry][];
+}
+
+export const VERDICT_CACHE_FILE = "verdict-cache.json";
+// Bump when verdict semantics change so persisted caches are discarded
+const CACHE_VERSION = 3;
+const SAVE_DELAY_MS = 1000;
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** Hash of every setting that can change a verdict for the same text. */
+export function verdictFingerprint(cfg: PluginConfig): string {
+  return sha256(JSON.stringify({
+    version: CACHE_VERSION,
+    models: resolveModels(cfg).map(({ id, dtype, positiveLabels, maxLength, weight }) =>
+      ({ id, dtype, positiveLabels, maxLength, weight })),
+    voting: cfg.voting ?? "any",
+    sensitivity: cfg.sensitivity ?? 0.5,
+    warnThreshold: cfg.warnThreshold ?? 0.4,
+    blockThreshold: cfg.blockThreshold ?? 0.8,
+    chunkMaxTokens: cfg.chunkMaxTokens,
+    chunkOverlapTokens: cfg.chunkOverlapTokens,
+    chunkOnSentences: cfg.chunkOnSentences ?? true,
+    deobfuscate: cfg.deobfuscate ?? true,
+    explain: (cfg.explain?.enabled ?? true) ? cfg.explain?.maxSpans ?? 3 : 0,
+  }));
+}
+
+/**
+ * Cache key: normalized text (NFKC, invisibles stripped, whitespace collapsed)
+ * under a config fingerprint. Without de-obfuscation the model only sees the
+ * raw text, so texts that normalize alike can score differently: the raw text
+ * is the key.
+ */
+export function verdictKey(text: string, cfg: PluginConfig): string {
+  const key = (cfg.deobfuscate ?? true) ? normalizeText(text).replace(/\s+/g, " ").trim() : text;
+  return sha256(`${verdictFingerprint(cfg)}\0${key}`);
+}
+
+export interface VerdictCache {
+  get(text: string, cfg: PluginConfig): GuardVerdict | undefined;
+  set(text: string, cfg: PluginConfig, verdict: GuardVerdict): void;
+  clear(): void;
+  stats(): CacheStats;
+  /** Write a pending save now (persisted caches only). */
+  flush(): void;
+}
+
+export interface VerdictCacheOptions extends VerdictCacheConfig {
+  /** Backing file; omit for an in-memory cache */
+  file?: string;
+  /** Fingerprint of the plugin's top-level config — a persisted file written under another is discarded */
+  fingerprint?: string;
+}
+
+/** Read a persisted cache file, or null if missing or unreadable. */
+export function loadCacheFile(file: string): CacheFile | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    return data?.version === CACHE_VERSION && Array.isArray(data.entries) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createVerdictCache(opts: VerdictCacheOptions = {}): VerdictCache {
+  const maxEntries = Math.max(1, opts.maxEntries ?? 1000);
+  const ttlMs = (opts.ttlSeconds ?? 3600) * 1000;
+  const fingerprint = opts.fingerprint ?? "";
+  // Map iteration order doubles as LRU order: re-inserted on every hit
+  const entries = new Map<string, CacheEntry>();
+  const counters = { hits: 0, misses: 0, evictions: 0 };
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  if (opts.file) {
+    const saved = loadCacheFile(opts.file);
+    if (saved && saved.fingerprint === fingerprint) {
+      const now = Date.now();
+      for (const [key, entry] of saved.entries.slice(-maxEntries)) {
+        if (now - entry.at < ttlMs) entries.set(key, entry);
+      }
+      Object.assign(counters, saved.stats);
+    }
+  }
+
+  function save() {
+    saveTimer = null;
+    if (!opts.file) return;
+    const data: CacheFile = { version: CACHE_VERSION, fingerprint, stats: counters, entries: [...entries] };
+    try {
+      const tmp = `${opts.file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+      fs.renameSync(tmp, opts.file);
+    } catch (err: any) {
+      console.error(`[channel-guard] Failed to save verdict cache: ${err.message}`);
+    }
+  }
+
+  // Batch writes — a burst of spam should not rewrite the file per message
+  function scheduleSave() {
+    if (!opts.file || saveTimer) return;
+    saveTimer = setTimeout(save, SAVE_DELAY_MS);
+    saveTimer.unref();
+  }
+
+  return {
+    get(text, cfg) {
+      const key = verdictKey(text, cfg);
+      const entry = entries.get(key);
+      if (entry && Date.now() - entry.at < ttlMs) {
+        entries.delete(key);
+        entries.set(key, entry);
+        counters.hits++;
+        scheduleSave();
+        if (entry.text === sha256(text)) return { ...entry.verdict };
+        const { span: _span, spans: _spans, ...verdict } = entry.verdict;
+        return verdict;
+      }
+      if (entry) entries.delete(key);
+      counters.misses++;
+      return undefined;
+    },
+
+    set(text, cfg, verdict) {
+      const key = verdictKey(text, cfg);
+      entries.delete(key);
+      entries.set(key, { verdict: { ...verdict }, at: Date.now(), text: sha256(text) });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+        counters.evictions++;
+      }
+      scheduleSave();
+    },
+
+    clear() {
+      entries.clear();
+      scheduleSave();
+    },
+
+    stats() {
+      return { ...counters, size: entries.size };
+    },
+
+    flush() {
+      if (!saveTimer) return;
+      clearTimeout(saveTimer);
+      save();
+    },
+  };
+}
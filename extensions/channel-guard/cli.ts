@@ -0,0 +1,476 @@
+#!/usr/bin/env npx tsx
+/**
+ * Operator CLI for channel-guard state.
+ *
+ * Usage:
+ *   npx tsx extensions/channel-guard/cli.ts reputation list --config ~/.openclaw/openclaw.json
+ *   npx tsx extensions/channel-guard/cli.ts reputation show "+46701234567"
+ *   npx tsx extensions/channel-guard/cli.ts reputation reset "+46701234567"
+ *   npx tsx extensions/channel-guard/cli.ts quarantine list
+ *   npx tsx extensions/channel-guard/cli.ts quarantine show 20261019T183000-ab12cd
+ *   npx tsx extensions/channel-guard/cli.ts quarantine release 20261019T183000-ab12cd --agent main
+ *   npx tsx extensions/channel-guard/cli.ts quarantine purge --older-than 7
+ *   npx tsx extensions/channel-guard/cli.ts cache stats
+ *   npx tsx extensions/channel-guard/cli.ts models provision --cache-dir /opt/models
+ *   npx tsx extensions/channel-guard/cli.ts models verify --cache-dir /opt/models
+ *   npx tsx extensions/channel-guard/cli.ts eval corpus.jsonl --config ~/.openclaw/openclaw.json --sweep
+ *
+ * Reads the same state dir as the plugin (--state-dir, else the stateDir in
+ * --config, else OPENCLAW_STATE_DIR, else ~/.openclaw, under
+ * plugins/channel-guard). Changes are picked up by a
+ * running gateway on its next message. Release requires OPENCLAW_GATEWAY_TOKEN.
+ * Reputation commands take decay and thresholds from --config, else the defaults.
+ * Model commands work on the model cache dir (--cache-dir, as in the plugin's cacheDir).
+ * eval runs the classifier over a labeled JSONL corpus (see evaluate.ts).
+ * Only cache, models and eval load the model runtime; reputation and
+ * quarantine commands start without it.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { TierMetrics } from "./evaluate.ts";
+import type { PluginConfig } from "./index.ts";
+import type { ModelDtype } from "./models.ts";
+import { describePart, type MessagePart } from "./parts.ts";
+import {
+  QUARANTINE_DIR,
+  getQuarantined,
+  listQuarantine,
+  markReleased,
+  purgeItem,
+  purgeQuarantine,
+  releaseToGateway,
+} from "./quarantine.ts";
+import {
+  REPUTATION_FILE,
+  getStanding,
+  loadReputation,
+  resetSender,
+  saveReputation,
+  type ReputationConfig,
+} from "./reputation.ts";
+import { resolveStateDir } from "./state.ts";
+
+const USAGE = `Usage: npx tsx cli.ts <command> [options]
+
+Commands:
+  reputation list             List tracked senders with current strikes
+  reputation show <sender>    Show standing and recent verdicts for a sender
+  reputation reset <sender>   Clear a sender's strikes and lift any mute
+  quarantine list             List held messages (add --all to include released)
+  quarantine show <id>        Show a held message in full
+  quarantine release <id>     Deliver a held message to an agent via the gateway API
+  quarantine purge <id>       Delete one held message
+  quarantine purge --older-than <days> | --all
+  cache stats                 Show persisted verdict cache counters (cache.persist)
+  cache clear                 Delete the persisted verdict cache
+  models provision            Download a model into the cache dir and record its SHA-256 manifest
+  models verify               Check cached models against the manifest (all, or --model)
+  eval <corpus.jsonl>         Score a labeled corpus: precision/recall/F1 per tier, confusion matrix
+
+Options:
+  --state-dir <dir>     Plugin state directory   [default: --config's stateDir, else ~/.openclaw/plugins/channel-guard]
+  --agent <id>          Agent for release        [default: main]
+  --gateway-url <url>   Gateway base URL         [default: http://127.0.0.1:18789]
+  --cache-dir <dir>     Model cache dir          (required for models commands)
+  --model <id|path>     Model to provision/verify [default: ProtectAI/deberta-v3-base-prompt-injection-v2]
+  --dtype <type>        fp32, fp16 or q8          [default: fp32]
+  --config <file>       Plugin config JSON for eval, reputation and the state dir (channel-guard config, or a whole openclaw.json)
+  --sweep               eval: sweep thresholds and recommend settings
+  --block-precision <n> eval: precision the recommended blockThreshold must reach [default: 0.99]
+  --min-f1 <n>          eval: exit 1 if the warn-tier F1 is below this (for CI)
+  --json                eval: print the report as JSON
+  --help                Show this help`;
+
+function parseArgs(argv: string[]) {
+  const args = argv.slice(2);
+  const opts: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--state-dir" && args[i + 1]) { opts.stateDir = args[++i]; continue; }
+    if (args[i] === "--agent" && args[i + 1]) { opts.agent = args[++i]; continue; }
+    if (args[i] === "--gateway-url" && args[i + 1]) { opts.gatewayUrl = args[++i]; continue; }
+    if (args[i] === "--older-than" && args[i + 1]) { opts.olderThan = args[++i]; continue; }
+    if (args[i] === "--cache-dir" && args[i + 1]) { opts.cacheDir = args[++i]; continue; }
+    if (args[i] === "--model" && args[i + 1]) { opts.model = args[++i]; continue; }
+    if (args[i] === "--dtype" && args[i + 1]) { opts.dtype = args[++i]; continue; }
+    if (args[i] === "--config" && args[i + 1]) { opts.config = args[++i]; continue; }
+    if (args[i] === "--block-precision" && args[i + 1]) { opts.blockPrecision = args[++i]; continue; }
+    if (args[i] === "--min-f1" && args[i + 1]) { opts.minF1 = args[++i]; continue; }
+    if (args[i] === "--sweep") { opts.sweep = "true"; continue; }
+    if (args[i] === "--json") { opts.json = "true"; continue; }
+    if (args[i] === "--all") { opts.all = "true"; continue; }
+    if (args[i] === "--help" || args[i] === "-h") { opts.help = "true"; continue; }
+    positional.push(args[i]);
+  }
+
+  return { positional, ...opts };
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function reputation(
+  stateDir: string,
+  action: string | undefined,
+  sender: string | undefined,
+  opts: Record<string, string | undefined>,
+): number {
+  const file = path.join(stateDir, REPUTATION_FILE);
+  const db = loadReputation(file);
+  // Strikes decay and flags apply as in the plugin, so read its settings
+  const repCfg: ReputationConfig = (opts.config ? readPluginConfig(opts.config).reputation : undefined) ?? {};
+
+  if (action === "list") {
+    const senders = Object.keys(db.senders);
+    if (senders.length === 0) {
+      console.log("No tracked senders.");
+      return 0;
+    }
+    for (const id of senders) {
+      const standing = getStanding(db, id, repCfg);
+      const flags = [
+        standing.muted ? `muted until ${formatTime(standing.mutedUntil!)}` : "",
+        standing.escalated ? "escalated" : "",
+      ].filter(Boolean).join(", ");
+      console.log(`${id}\tstrikes: ${standing.strikes.toFixed(2)}${flags ? `\t(${flags})` : ""}`);
+    }
+    return 0;
+  }
+
+  if (action === "show" && sender) {
+    const record = db.senders[sender];
+    if (!record) {
+      console.error(`Unknown sender: ${sender}`);
+      return 1;
+    }
+    const standing = getStanding(db, sender, repCfg);
+    console.log(`Sender:    ${sender}`);
+    console.log(`Strikes:   ${standing.strikes.toFixed(2)}${standing.escalated ? " (escalated)" : ""}`);
+    console.log(`Muted:     ${standing.muted ? `until ${formatTime(standing.mutedUntil!)}` : "no"}`);
+    console.log(`Recent verdicts:`);
+    for (const v of record.recent) {
+      console.log(`  ${formatTime(v.at)}  ${v.action.padEnd(5)}  ${v.score.toFixed(3)}  ${v.channel}`);
+    }
+    return 0;
+  }
+
+  if (action === "reset" && sender) {
+    if (!resetSender(db, sender)) {
+      console.error(`Unknown sender: ${sender}`);
+      return 1;
+    }
+    saveReputation(file, db, repCfg);
+    console.log(`Reset reputation for ${sender}.`);
+    return 0;
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+async function quarantine(
+  stateDir: string,
+  action: string | undefined,
+  id: string | undefined,
+  opts: Record<string, string | undefined>,
+): Promise<number> {
+  const dir = path.join(stateDir, QUARANTINE_DIR);
+
+  if (action === "list") {
+    const items = listQuarantine(dir).filter((item) => opts.all || item.status === "quarantined");
+    if (items.length === 0) {
+      console.log("Quarantine is empty.");
+      return 0;
+    }
+    for (const item of items) {
+      const preview = item.text.replace(/\s+/g, " ").slice(0, 60);
+      console.log(
+        `${item.id}  ${formatTime(item.createdAt)}  ${item.action.padEnd(5)}  ` +
+        `${item.score.toFixed(3)}  ${item.channel}  ${item.sender || "-"}` +
+        `${item.status === "released" ? "  [released]" : ""}  ${preview}`,
+      );
+    }
+    return 0;
+  }
+
+  if (action === "show" && id) {
+    const item = getQuarantined(dir, id);
+    if (!item) {
+      console.error(`Unknown quarantine ID: ${id}`);
+      return 1;
+    }
+    console.log(`ID:       ${item.id}`);
+    console.log(`Received: ${formatTime(item.createdAt)}`);
+    console.log(`Channel:  ${item.channel}`);
+    console.log(`Sender:   ${item.sender || "unknown"}`);
+    console.log(`Verdict:  ${item.action} (${item.reason}, score ${item.score.toFixed(3)}, profile ${item.profile})`);
+    if (item.messageIds) console.log(`Window:   ${item.messageIds.join(", ")}`);
+    if (item.part) console.log(`Part:     ${item.part}`);
+    if (item.unscanned) console.log(`Skipped:  ${item.unscanned.join("; ")}`);
+    console.log(`Status:   ${item.status}${item.releasedAt ? ` to ${item.releasedTo} at ${formatTime(item.releasedAt)}` : ""}`);
+    console.log(`\n${item.text}`);
+    for (const part of item.parts?.slice(1) ?? []) {
+      console.log(`\n--- ${describePart(part as MessagePart)} ---\n${part.text}`);
+    }
+    return 0;
+  }
+
+  if (action === "release" && id) {
+    const item = getQuarantined(dir, id);
+    if (!item) {
+      console.error(`Unknown quarantine ID: ${id}`);
+      return 1;
+    }
+    if (item.status === "released") {
+      console.error(`${id} was already released to ${item.releasedTo}.`);
+      return 1;
+    }
+    const agent = opts.agent ?? "main";
+    await releaseToGateway(item, {
+      agent,
+      gatewayUrl: opts.gatewayUrl,
+      token: process.env.OPENCLAW_GATEWAY_TOKEN,
+    });
+    markReleased(dir, id, agent);
+    console.log(`Released ${id} to agent "${agent}".`);
+    return 0;
+  }
+
+  if (action === "purge") {
+    if (id) {
+      if (!purgeItem(dir, id)) {
+        console.error(`Unknown quarantine ID: ${id}`);
+        return 1;
+      }
+      console.log(`Purged ${id}.`);
+      return 0;
+    }
+    if (opts.all || opts.olderThan) {
+      const days = opts.all ? 0 : Number(opts.olderThan);
+      if (!Number.isFinite(days) || days < 0) {
+        console.error(`Invalid --older-than: ${opts.olderThan}`);
+        return 1;
+      }
+      console.log(`Purged ${purgeQuarantine(dir, days)} item(s).`);
+      return 0;
+    }
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+async function cache(stateDir: string, action: string | undefined): Promise<number> {
+  const { VERDICT_CACHE_FILE, loadCacheFile } = await import("./cache.ts");
+  const file = path.join(stateDir, VERDICT_CACHE_FILE);
+
+  if (action === "stats") {
+    const saved = loadCacheFile(file);
+    if (!saved) {
+      console.log("No persisted verdict cache (enable cache.persist).");
+      return 0;
+    }
+    const { hits, misses, evictions } = saved.stats;
+    const lookups = hits + misses;
+    console.log(`Entries:   ${saved.entries.length}`);
+    console.log(`Hits:      ${hits}${lookups ? ` (${((hits / lookups) * 100).toFixed(1)}%)` : ""}`);
+    console.log(`Misses:    ${misses}`);
+    console.log(`Evictions: ${evictions}`);
+    return 0;
+  }
+
+  if (action === "clear") {
+    fs.rmSync(file, { force: true });
+    console.log("Cleared persisted verdict cache. Restart the gateway to drop its in-memory copy.");
+    return 0;
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+async function models(action: string | undefined, opts: Record<string, string | undefined>): Promise<number> {
+  if (!opts.cacheDir) {
+    console.error("--cache-dir is required for models commands");
+    return 1;
+  }
+  const cacheDir = path.resolve(opts.cacheDir);
+  if (opts.dtype && !["fp32", "fp16", "q8"].includes(opts.dtype)) {
+    console.error(`Invalid --dtype: ${opts.dtype}`);
+    return 1;
+  }
+  const { resolveModel } = await import("./models.ts");
+  const { MANIFEST_FILE, provisionModel, readManifest, verifyModel } = await import("./provision.ts");
+
+  if (action === "provision") {
+    const model = resolveModel({ id: opts.model, dtype: opts.dtype as ModelDtype }, cacheDir);
+    const entry = await provisionModel(model, cacheDir);
+    console.log(`Provisioned ${model.id} (${entry.dtypes.join(", ")}): ${Object.keys(entry.files).length} files`);
+    console.log(`Manifest: ${path.join(cacheDir, MANIFEST_FILE)}`);
+    return 0;
+  }
+
+  if (action === "verify") {
+    const manifest = readManifest(cacheDir);
+    const ids = opts.model ? [opts.model] : Object.keys(manifest?.models ?? {});
+    if (ids.length === 0) {
+      console.error(`No models in ${path.join(cacheDir, MANIFEST_FILE)}`);
+      return 1;
+    }
+    let failed = 0;
+    for (const id of ids) {
+      // Verify against the first provisioned dtype unless one is given
+      const dtype = (opts.dtype ?? manifest?.models[id]?.dtypes[0]) as ModelDtype | undefined;
+      try {
+        const files = await verifyModel(resolveModel({ id, dtype }, cacheDir), cacheDir, true);
+        console.log(`OK      ${id} (${files} files)`);
+      } catch (err: any) {
+        failed++;
+        console.error(`FAILED  ${err.message}`);
+      }
+    }
+    return failed ? 1 : 0;
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+function readPluginConfig(file: string): PluginConfig {
+  const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+  // Accept a whole openclaw.json as well as the plugin's own config object
+  return data?.plugins?.entries?.["channel-guard"]?.config ?? data;
+}
+
+function formatTier(name: string, m: TierMetrics): string {
+  return `${name.padEnd(8)}${m.precision.toFixed(3).padStart(9)}${m.recall.toFixed(3).padStart(8)}` +
+    `${m.f1.toFixed(3).padStart(7)}    ${m.tp} / ${m.fp} / ${m.tn} / ${m.fn}`;
+}
+
+async function evalCorpus(file: string | undefined, opts: Record<string, string | undefined>): Promise<number> {
+  if (!file) {
+    console.error(USAGE);
+    return 1;
+  }
+  const cfg = opts.config ? readPluginConfig(opts.config) : {};
+  const blockPrecision = opts.blockPrecision ? Number(opts.blockPrecision) : 0.99;
+  const minF1 = opts.minF1 ? Number(opts.minF1) : undefined;
+  if (!(blockPrecision > 0 && blockPrecision <= 1) || (minF1 !== undefined && !(minF1 >= 0 && minF1 <= 1))) {
+    console.error("--block-precision and --min-f1 must be between 0 and 1");
+    return 1;
+  }
+
+  const { evaluate, loadCorpus, recommendThresholds, scoreCorpus, sweep } = await import("./evaluate.ts");
+  const corpus = loadCorpus(file);
+  const started = Date.now();
+  const scored = await scoreCorpus(corpus, cfg);
+  const report = evaluate(scored, cfg);
+  const points = opts.sweep ? sweep(scored) : undefined;
+  const recommended = opts.sweep ? recommendThresholds(scored, blockPrecision) : undefined;
+
+  if (opts.json) {
+    console.log(JSON.stringify({ ...report, sweep: points, recommended }, null, 2));
+  } else {
+    const t = report.thresholds;
+    console.log(`Corpus:     ${report.total} messages (${report.injections} injection, ${report.total - report.injections} safe) in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+    console.log(`Thresholds: sensitivity ${t.sensitivity}, warn ${t.warnThreshold}, block ${t.blockThreshold}\n`);
+    console.log(`Tier    Precision  Recall     F1    TP / FP / TN / FN`);
+    console.log(formatTier("warn+", report.tiers.warn));
+    console.log(formatTier("block", report.tiers.block));
+    console.log(`\nExpected    pass  warn  block`);
+    for (const label of ["injection", "safe"] as const) {
+      const row = report.matrix[label];
+      console.log(`${label.padEnd(10)}${String(row.pass).padStart(6)}${String(row.warn).padStart(6)}${String(row.block).padStart(7)}`);
+    }
+    if (report.misclassified.length > 0) {
+      console.log(`\nMisclassified (injections passed, safe messages blocked):`);
+      for (const e of report.misclassified.slice(0, 20)) {
+        console.log(`  ${e.id.padEnd(8)} ${e.injection ? "injection" : "safe     "}  ${e.score.toFixed(3)}  ${e.text.replace(/\s+/g, " ").slice(0, 60)}`);
+      }
+      if (report.misclassified.length > 20) console.log(`  ... and ${report.misclassified.length - 20} more`);
+    }
+    if (points && recommended) {
+      console.log(`\nThreshold  Precision  Recall     F1`);
+      for (const p of points) {
+        console.log(`${p.threshold.toFixed(2).padStart(9)}${p.precision.toFixed(3).padStart(11)}${p.recall.toFixed(3).padStart(8)}${p.f1.toFixed(3).padStart(7)}`);
+      }
+      console.log(
+        `\nRecommended: sensitivity ${recommended.sensitivity}, warnThreshold ${recommended.warnThreshold}, ` +
+        `blockThreshold ${recommended.blockThreshold} (block precision target ${blockPrecision})`,
+      );
+    }
+  }
+
+  if (minF1 !== undefined && report.tiers.warn.f1 < minF1) {
+    console.error(`F1 ${report.tiers.warn.f1.toFixed(3)} is below --min-f1 ${minF1}`);
+    return 1;
+  }
+  return 0;
+}
+
+async function main() {
+  const { positional, stateDir, help, ...opts } = parseArgs(process.argv);
+  const [command, action, target] = positional;
+
+  if (help || !command) {
+    console.log(USAGE);
+    process.exit(command ? 0 : 1);
+  }
+
+  let dir: string;
+  try {
+    // The plugin's own stateDir, when --config names one, is where its state lives
+    dir = resolveStateDir(undefined, { stateDir: stateDir ?? (opts.config ? readPluginConfig(opts.config).stateDir : undefined) });
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+
+  if (command === "reputation") {
+    try {
+      process.exit(reputation(dir, action, target, opts));
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === "cache") {
+    process.exit(await cache(dir, action));
+  }
+
+  if (command === "models") {
+    try {
+      process.exit(await models(action, opts));
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === "eval") {
+    try {
+      process.exit(await evalCorpus(action, opts));
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === "quarantine") {
+    try {
+      process.exit(await quarantine(dir, action, target, opts));
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  console.error(`Unknown command: ${command}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+main();
@@ -0,0 +1,94 @@
+/**
+ * Rolling per-conversation message windows for channel-guard.
+ *
+ * An attacker can split an injection across several short messages so each
+ * one scores low on its own. Keeping the last few messages of a conversation
+ * and classifying their concatenation catches fragmented payloads. Windows
+ * are in-memory only, bounded by message count, age, size and the number of
+ * tracked conversations (least recently active evicted first).
+ */
+
+export interface ConversationWindowConfig {
+  /** Classify the rolling window in addition to each message. Default: true */
+  enabled?: boolean;
+  /** Messages kept per conversation, including the current one. Default: 5 */
+  maxMessages?: number;
+  /** Drop messages older than this. Default: 300 */
+  maxAgeSeconds?: number;
+  /** Drop the oldest messages once the window exceeds this many characters. Default: 4000 */
+  maxChars?: number;
+  /** Conversations tracked at once; least recently active are evicted. Default: 1000 */
+  maxConversations?: number;
+}
+
+export interface WindowMessage {
+  id: string;
+  text: string;
+  at: number;
+}
+
+const DEFAULTS: Required<ConversationWindowConfig> = {
+  enabled: true,
+  maxMessages: 5,
+  maxAgeSeconds: 300,
+  maxChars: 4000,
+  maxConversations: 1000,
+};
+
+export function resolveWindowConfig(cfg: ConversationWindowConfig = {}): Required<ConversationWindowConfig> {
+  return { ...DEFAULTS, ...cfg };
+}
+
+/** Separator between window messages — a sentence boundary for the chunker. */
+export const WINDOW_SEPARATOR = "\n";
+
+export interface WindowStore {
+  /** Append a message and return the current window (oldest first, including it). */
+  push(key: string, message: WindowMessage): WindowMessage[];
+  /** Forget a conversation's window. */
+  clear(key: string): void;
+  /** Number of tracked conversations. */
+  readonly size: number;
+}
+
+export function createWindowStore(cfg: ConversationWindowConfig = {}): WindowStore {
+  const { maxMessages, maxAgeSeconds, maxChars, maxConversations } = resolveWindowConfig(cfg);
+  // Map iteration order doubles as LRU order: re-inserted on every push
+  const windows = new Map<string, WindowMessage[]>();
+
+  return {
+    push(key, message) {
+      const cutoff = message.at - maxAgeSeconds * 1000;
+      const window = (windows.get(key) ?? []).filter((m) => m.at >= cutoff);
+      window.push(message);
+      while (window.length > maxMessages) window.shift();
+      let chars = window.reduce((sum, m) => sum + m.text.length, 0);
+      while (window.length > 1 && chars > maxChars) chars -= window.shift()!.text.length;
+
+      windows.delete(key);
+      windows.set(key, window);
+      while (windows.size > maxConversations) {
+        windows.delete(windows.keys().next().value!);
+      }
+      return [...window];
+    },
+    clear(key) {
+      windows.delete(key);
+    },
+    get size() {
+      return windows.size;
+    },
+  };
+}
+
+/** Best-effort message identifier across channel bridges, falling back to the receive time. */
+export function getMessageId(event: any, at: number): string {
+  return String(event.messageId ?? event.message?.id ?? event.id ?? at);
+}
+
+/** Conversation key for an event: channel plus conversation/chat ID, falling back to the sender. */
+export function getConversationKey(event: any, channel: string, sender: string): string | null {
+  const conversation =
+    event.conversationId ?? event.message?.conversationId ?? event.chatId ?? event.message?.chatId ?? sender;
+  return conversation ? `${channel}:${conversation}` : null;
+}
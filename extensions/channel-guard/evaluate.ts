@@ -0,0 +1,187 @@
+/**
+ * Labeled-corpus evaluation for channel-guard.
+ *
+ * Runs classifyMessage over a JSONL corpus ({"text": "...", "label":
+ * "injection" | "safe"} per line) once, keeping the raw score, then applies
+ * thresholds offline: precision/recall/F1 and confusion counts per action
+ * tier, a threshold sweep, and recommended settings. Used by `cli.ts eval`
+ * and by regression tests that pin the model and chunking behavior.
+ */
+
+import * as fs from "node:fs";
+import { classifyMessage, type PluginConfig } from "./index.ts";
+
+export interface CorpusEntry {
+  id: string;
+  text: string;
+  /** true = prompt injection */
+  injection: boolean;
+}
+
+export interface ScoredEntry extends CorpusEntry {
+  score: number;
+}
+
+export interface Thresholds {
+  sensitivity: number;
+  warnThreshold: number;
+  blockThreshold: number;
+}
+
+export interface TierMetrics {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvalReport {
+  total: number;
+  injections: number;
+  thresholds: Thresholds;
+  /** warn: flagged at all (warn or block); block: blocked */
+  tiers: { warn: TierMetrics; block: TierMetrics };
+  /** Expected label × resulting action */
+  matrix: Record<"injection" | "safe", Record<"pass" | "warn" | "block", number>>;
+  /** Injections that passed and safe messages that were blocked */
+  misclassified: ScoredEntry[];
+}
+
+export interface SweepPoint {
+  threshold: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+const POSITIVE_LABELS = ["injection", "jailbreak", "malicious", "1", "true"];
+const NEGATIVE_LABELS = ["safe", "benign", "0", "false"];
+
+/** Parse a JSONL corpus. Throws on malformed lines, naming the line number. */
+export function parseCorpus(jsonl: string): CorpusEntry[] {
+  const entries: CorpusEntry[] = [];
+  jsonl.split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    let row: any;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`Corpus line ${i + 1}: invalid JSON`);
+    }
+    const label = String(row.label ?? "").toLowerCase();
+    if (typeof row.text !== "string" || ![...POSITIVE_LABELS, ...NEGATIVE_LABELS].includes(label)) {
+      throw new Error(`Corpus line ${i + 1}: expected {"text": string, "label": "injection" | "safe"}`);
+    }
+    entries.push({ id: String(row.id ?? i + 1), text: row.text, injection: POSITIVE_LABELS.includes(label) });
+  });
+  return entries;
+}
+
+export function loadCorpus(file: string): CorpusEntry[] {
+  return parseCorpus(fs.readFileSync(file, "utf-8"));
+}
+
+/**
+ * Classify every entry once and keep its raw score (sensitivity 0), so any
+ * thresholds can be evaluated afterwards without re-running the model.
+ */
+export async function scoreCorpus(
+  corpus: CorpusEntry[],
+  cfg: PluginConfig = {},
+  concurrency = 4,
+): Promise<ScoredEntry[]> {
+  const scored: ScoredEntry[] = new Array(corpus.length);
+  let next = 0;
+  // A few messages in flight lets the inference pool batch their chunks
+  const run = async () => {
+    while (next < corpus.length) {
+      const i = next++;
+      const verdict = await classifyMessage(corpus[i].text, { ...cfg, sensitivity: 0 });
+      scored[i] = { ...corpus[i], score: verdict.score };
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, run));
+  return scored;
+}
+
+function actionFor(score: number, t: Thresholds): "pass" | "warn" | "block" {
+  if (score < t.sensitivity) return "pass";
+  if (score >= t.blockThreshold) return "block";
+  if (score >= t.warnThreshold) return "warn";
+  return "pass";
+}
+
+function metrics(scored: ScoredEntry[], flagged: (entry: ScoredEntry) => boolean): TierMetrics {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  for (const entry of scored) {
+    const hit = flagged(entry);
+    if (entry.injection) hit ? tp++ : fn++;
+    else hit ? fp++ : tn++;
+  }
+  const precision = tp + fp ? tp / (tp + fp) : 0;
+  const recall = tp + fn ? tp / (tp + fn) : 0;
+  const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  return { tp, fp, tn, fn, precision, recall, f1 };
+}
+
+/** Evaluate scored entries under the given thresholds (defaults as in the plugin). */
+export function evaluate(scored: ScoredEntry[], cfg: Partial<Thresholds> = {}): EvalReport {
+  const thresholds: Thresholds = {
+    sensitivity: cfg.sensitivity ?? 0.5,
+    warnThreshold: cfg.warnThreshold ?? 0.4,
+    blockThreshold: cfg.blockThreshold ?? 0.8,
+  };
+  const matrix: EvalReport["matrix"] = {
+    injection: { pass: 0, warn: 0, block: 0 },
+    safe: { pass: 0, warn: 0, block: 0 },
+  };
+  const misclassified: ScoredEntry[] = [];
+  for (const entry of scored) {
+    const action = actionFor(entry.score, thresholds);
+    matrix[entry.injection ? "injection" : "safe"][action]++;
+    if ((entry.injection && action === "pass") || (!entry.injection && action === "block")) {
+      misclassified.push(entry);
+    }
+  }
+  return {
+    total: scored.length,
+    injections: scored.filter((e) => e.injection).length,
+    thresholds,
+    tiers: {
+      warn: metrics(scored, (e) => actionFor(e.score, thresholds) !== "pass"),
+      block: metrics(scored, (e) => actionFor(e.score, thresholds) === "block"),
+    },
+    matrix,
+    misclassified,
+  };
+}
+
+/** Precision/recall/F1 of "score >= t" for t = step, 2·step, … < 1. */
+export function sweep(scored: ScoredEntry[], step = 0.05): SweepPoint[] {
+  const points: SweepPoint[] = [];
+  for (let i = 1; i * step < 1 - 1e-9; i++) {
+    const threshold = Math.round(i * step * 1000) / 1000;
+    const { precision, recall, f1 } = metrics(scored, (e) => e.score >= threshold);
+    points.push({ threshold, precision, recall, f1 });
+  }
+  return points;
+}
+
+/**
+ * Recommend thresholds from a fine sweep: warn (and sensitivity) where F1 is
+ * highest, block at the lowest threshold at or above warn whose precision
+ * reaches `blockPrecision` — blocks should almost never hit real users.
+ */
+export function recommendThresholds(scored: ScoredEntry[], blockPrecision = 0.99): Thresholds {
+  const points = sweep(scored, 0.01);
+  // Ties go to the higher threshold (fewer false positives for the same F1)
+  const warn = points.reduce((a, b) => (b.f1 >= a.f1 ? b : a));
+  const candidates = points.filter((p) => p.threshold >= warn.threshold && p.recall > 0);
+  const block =
+    candidates.find((p) => p.precision >= blockPrecision) ??
+    candidates.reduce((a, b) => (b.precision > a.precision ? b : a), warn);
+  return { sensitivity: warn.threshold, warnThreshold: warn.threshold, blockThreshold: block.threshold };
+}
@@ -0,0 +1,108 @@
+/**
+ * Structured detection events for channel-guard.
+ *
+ * One JSON line per classified (or muted) message in <stateDir>/detections.jsonl: the
+ * verdict tier and score, where in the text the top chunk sits, channel,
+ * latency, and — when a candidate config runs side by side — the candidate's
+ * verdict and whether the two disagree. Message text is not recorded; use the
+ * quarantine for that. Meant for shadow deployments and threshold analysis.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ChunkSpan, GuardVerdict } from "./index.ts";
+import { describePart } from "./parts.ts";
+
+export interface DetectionEventsConfig {
+  /** Write an event per classified message. Default: true with shadow or a candidate, else false */
+  enabled?: boolean;
+  /** Also record messages that passed. Default: true */
+  includePass?: boolean;
+  /** Rotate the file to <file>.1 once it grows past this. Default: 10485760 (10 MB) */
+  maxBytes?: number;
+}
+
+/** The parts of a verdict an event carries. */
+export interface EventVerdict {
+  action: GuardVerdict["action"] | "error";
+  score: number;
+  label?: string;
+  scores?: Record<string, number>;
+  /** Top chunk, as offsets into the (transformed, or joined window) text */
+  span?: ChunkSpan;
+  /** Sentences that drove the verdict (offsets as in span), without their text */
+  spans?: { start: number; end: number; score: number }[];
+  transform?: string;
+  messageIds?: string[];
+  /** Part that triggered the verdict, when not the message text */
+  part?: string;
+  /** Set when the message was acted on without classification: its sender is muted, or it has unscannable attachments */
+  reason?: "muted" | "unscanned";
+  latencyMs: number;
+  error?: string;
+}
+
+export interface DetectionEvent extends EventVerdict {
+  at: string;
+  channel: string;
+  sender: string;
+  messageId: string;
+  profile: string;
+  /** "shadow" when the verdict was only recorded, not acted on */
+  mode: "enforce" | "shadow";
+  quarantineId?: string;
+  candidate?: EventVerdict;
+  /** Candidate and active verdicts reached different actions */
+  disagreement?: boolean;
+}
+
+export const EVENTS_FILE = "detections.jsonl";
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Reduce a verdict to its event fields. */
+export function eventVerdict(verdict: GuardVerdict, latencyMs: number): EventVerdict {
+  return {
+    action: verdict.action,
+    score: verdict.score,
+    ...(verdict.action !== "pass" && { label: verdict.label }),
+    ...(verdict.scores && { scores: verdict.scores }),
+    ...(verdict.span && { span: verdict.span }),
+    ...(verdict.spans && { spans: verdict.spans.map(({ start, end, score }) => ({ start, end, score })) }),
+    ...(verdict.transform && { transform: verdict.transform }),
+    ...(verdict.messageIds && { messageIds: verdict.messageIds }),
+    ...(verdict.part && { part: describePart(verdict.part) }),
+    latencyMs: Math.round(latencyMs * 10) / 10,
+  };
+}
+
+export interface EventLog {
+  write(event: DetectionEvent): void;
+}
+
+export function createEventLog(file: string, cfg: DetectionEventsConfig = {}): EventLog {
+  const includePass = cfg.includePass ?? true;
+  const maxBytes = cfg.maxBytes ?? DEFAULT_MAX_BYTES;
+  let size = -1;
+
+  return {
+    write(event) {
+      if (!includePass && event.action === "pass" && !event.disagreement) return;
+      const line = JSON.stringify(event) + "\n";
+      const bytes = Buffer.byteLength(line);
+      try {
+        if (size < 0) {
+          fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+          size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+        }
+        if (size > 0 && size + bytes > maxBytes) {
+          fs.renameSync(file, `${file}.1`);
+          size = 0;
+        }
+        fs.appendFileSync(file, line, { mode: 0o600 });
+        size += bytes;
+      } catch (err: any) {
+        console.error(`[channel-guard] Failed to write detection event: ${err.message}`);
+      }
+    },
+  };
+}
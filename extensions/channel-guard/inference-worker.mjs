@@ -0,0 +1,59 @@
+/**
+ * Inference worker for channel-guard (see inference.ts).
+ *
+ * Plain JavaScript on purpose: the gateway loads plugin TypeScript in-process,
+ * but a worker thread starts a fresh isolate without that loader.
+ *
+ * Protocol:
+ *   workerData           { models: WorkerModel[], cacheDir?, allowRemoteModels } — preloaded on start
+ *   → { ready: true } | { ready: false, error }
+ *   ← { model, texts }   one batch, classified in a single forward pass
+ *   → { results } (one label list per text) | { error }
+ */
+
+import { parentPort, workerData } from "node:worker_threads";
+import { pipeline, env } from "@huggingface/transformers";
+
+const { models = [], cacheDir, allowRemoteModels = true } = workerData ?? {};
+if (cacheDir) env.cacheDir = cacheDir;
+env.allowRemoteModels = allowRemoteModels;
+
+const pipelines = new Map();
+
+function load(model) {
+  let loading = pipelines.get(model.id);
+  if (!loading) {
+    loading = pipeline("text-classification", model.source, {
+      dtype: model.dtype,
+      ...(model.local && { local_files_only: true }),
+      progress_callback: (p) => {
+        if (p.status === "downloading" && p.progress != null) {
+          process.stdout.write(`\r[channel-guard] Downloading ${p.file}: ${Math.round(p.progress)}%`);
+        } else if (p.status === "done" && p.file) {
+          console.log(`\n[channel-guard] Cached: ${p.file}`);
+        }
+      },
+    }).catch((err) => {
+      pipelines.delete(model.id);
+      throw err;
+    });
+    pipelines.set(model.id, loading);
+  }
+  return loading;
+}
+
+Promise.all(models.map(load)).then(
+  () => parentPort.postMessage({ ready: true }),
+  (err) => parentPort.postMessage({ ready: false, error: err.message }),
+);
+
+parentPort.on("message", async ({ model, texts }) => {
+  try {
+    const classifier = await load(model);
+    // An array input returns one label list per text
+    const results = await classifier(texts, { top_k: null });
+    parentPort.postMessage({ results });
+  } catch (err) {
+    parentPort.postMessage({ error: err.message });
+  }
+});
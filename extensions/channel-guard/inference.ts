@@ -0,0 +1,268 @@
+/**
+ * Off-main-thread inference pool for channel-guard.
+ *
+ * ONNX inference is CPU-bound; running it on the gateway's event loop stalls
+ * every other hook and channel while a long message is classified. The pool
+ * runs the classifier pipelines in worker threads instead. Chunks queued in
+ * the same tick — from one message or several concurrent ones — are grouped
+ * per model into batches and classified in one forward pass. The queue is
+ * bounded, and chunks of a message whose deadline has passed are dropped. A
+ * worker still running a batch past its deadline is replaced, and one that
+ * does not finish loading within loadTimeoutMs is retired.
+ */
+
+import { Worker } from "node:worker_threads";
+
+export interface InferenceConfig {
+  /** Worker threads running the model(s). 0 runs inference on the main thread. Default: 1 */
+  workers?: number;
+  /** Max chunks per forward pass. Default: 8 */
+  batchSize?: number;
+  /** Max chunks waiting for a worker; more are rejected. Default: 256 */
+  maxQueue?: number;
+  /** Per-message classification deadline, after the model is loaded. Default: 15000 */
+  timeoutMs?: number;
+  /** Deadline for loading the model(s), first-run download included. Default: 300000 */
+  loadTimeoutMs?: number;
+}
+
+export const DEFAULT_LOAD_TIMEOUT_MS = 300_000;
+
+/** What a worker needs to load a model (structured-clone safe). */
+export interface WorkerModel {
+  id: string;
+  source: string;
+  local: boolean;
+  dtype: string;
+}
+
+export interface PoolOptions extends InferenceConfig {
+  /** Models every worker preloads on start */
+  models: WorkerModel[];
+  cacheDir?: string;
+  /** Let workers download missing model files. Default: true */
+  allowRemoteModels?: boolean;
+  /** Worker script (for testing). Default: ./inference-worker.mjs */
+  workerUrl?: URL;
+}
+
+export interface InferencePool {
+  /** Spawn all workers and wait until each has loaded the models. */
+  ready(): Promise<void>;
+  /** Classify one chunk; resolves with the pipeline's label list for it. */
+  classify(model: WorkerModel, text: string, signal?: AbortSignal): Promise<any>;
+  /** Chunks waiting for a worker */
+  readonly queued: number;
+  /** Terminate workers and reject everything pending. */
+  close(): Promise<void>;
+}
+
+interface Job {
+  model: WorkerModel;
+  text: string;
+  resolve: (result: any) => void;
+  reject: (err: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface Slot {
+  worker: Worker | null;
+  ready: Promise<void> | null;
+  /** In-flight batch — a worker runs one batch at a time */
+  jobs: Job[];
+}
+
+const DEFAULT_WORKER_URL = new URL("./inference-worker.mjs", import.meta.url);
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("Classification aborted");
+}
+
+/** Reject with `message` unless the promise settles within `ms`. */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function createInferencePool(opts: PoolOptions): InferencePool {
+  const workers = Math.max(1, opts.workers ?? 1);
+  const batchSize = Math.max(1, opts.batchSize ?? 8);
+  const maxQueue = opts.maxQueue ?? 256;
+  const loadTimeoutMs = opts.loadTimeoutMs ?? DEFAULT_LOAD_TIMEOUT_MS;
+  const workerUrl = opts.workerUrl ?? DEFAULT_WORKER_URL;
+
+  const slots: Slot[] = Array.from({ length: workers }, () => ({ worker: null, ready: null, jobs: [] }));
+  let queue: Job[] = [];
+  let scheduled = false;
+  let closed = false;
+
+  function settle(job: Job) {
+    if (job.onAbort) job.signal!.removeEventListener("abort", job.onAbort);
+  }
+
+  function failSlot(slot: Slot, worker: Worker, err: Error) {
+    if (slot.worker !== worker) return;
+    slot.worker = null;
+    slot.ready = null;
+    const jobs = slot.jobs;
+    slot.jobs = [];
+    for (const job of jobs) {
+      settle(job);
+      job.reject(err);
+    }
+    schedule();
+  }
+
+  // A batch past its deadline would hold the worker until it finishes, if ever:
+  // replace the worker, failing the expired chunks and requeueing the others
+  function recycle(slot: Slot) {
+    const worker = slot.worker!;
+    const jobs = slot.jobs;
+    slot.worker = null;
+    slot.ready = null;
+    slot.jobs = [];
+    void worker.terminate();
+    console.warn(`[channel-guard] Inference worker missed a deadline — restarting it`);
+    const live: Job[] = [];
+    for (const job of jobs) {
+      if (!job.signal?.aborted) {
+        live.push(job);
+        continue;
+      }
+      settle(job);
+      job.reject(abortReason(job.signal));
+    }
+    queue = [...live, ...queue];
+    schedule();
+  }
+
+  function spawn(slot: Slot): Promise<void> {
+    const worker = new Worker(workerUrl, {
+      workerData: { models: opts.models, cacheDir: opts.cacheDir, allowRemoteModels: opts.allowRemoteModels ?? true },
+    });
+    slot.worker = worker;
+    // A load that never reports back (e.g. a stalled download) fails like a failed one
+    slot.ready = withTimeout(
+      new Promise((resolve, reject) => {
+        worker.once("message", (msg) => (msg.ready ? resolve() : reject(new Error(msg.error))));
+        worker.once("exit", (code) => reject(new Error(`Inference worker exited with code ${code}`)));
+      }),
+      loadTimeoutMs,
+      `Model loading timed out after ${loadTimeoutMs}ms`,
+    );
+    // Only keep the process alive while loading or while a batch is in flight
+    slot.ready.then(
+      () => {
+        if (slot.worker === worker && slot.jobs.length === 0) worker.unref();
+      },
+      (err) => {
+        // Failed preload (e.g. model download): retire the worker so the next call retries
+        failSlot(slot, worker, err);
+        void worker.terminate();
+      },
+    );
+
+    worker.on("message", (msg) => {
+      if ("ready" in msg) return;
+      const jobs = slot.jobs;
+      slot.jobs = [];
+      worker.unref();
+      jobs.forEach((job, i) => {
+        settle(job);
+        if (msg.error) job.reject(new Error(msg.error));
+        else job.resolve(msg.results[i]);
+      });
+      schedule();
+    });
+    worker.on("error", (err) => failSlot(slot, worker, err));
+    worker.on("exit", (code) => failSlot(slot, worker, new Error(`Inference worker exited with code ${code}`)));
+    return slot.ready;
+  }
+
+  function takeBatch(): Job[] {
+    const key = queue[0].model.id;
+    const batch: Job[] = [];
+    const rest: Job[] = [];
+    for (const job of queue) {
+      (batch.length < batchSize && job.model.id === key ? batch : rest).push(job);
+    }
+    queue = rest;
+    return batch;
+  }
+
+  function dispatch() {
+    scheduled = false;
+    for (const slot of slots) {
+      if (queue.length === 0) return;
+      if (slot.jobs.length > 0) continue;
+      if (!slot.worker) spawn(slot);
+      slot.jobs = takeBatch();
+      slot.worker!.ref();
+      slot.worker!.postMessage({ model: slot.jobs[0].model, texts: slot.jobs.map((j) => j.text) });
+    }
+  }
+
+  // Defer to the next macrotask so chunks queued together share a batch
+  function schedule() {
+    if (scheduled || closed) return;
+    scheduled = true;
+    setImmediate(dispatch);
+  }
+
+  return {
+    ready() {
+      return Promise.all(slots.map((slot) => slot.ready ?? spawn(slot))).then(() => {});
+    },
+
+    classify(model, text, signal) {
+      if (closed) return Promise.reject(new Error("Inference pool is closed"));
+      if (signal?.aborted) return Promise.reject(abortReason(signal));
+      if (queue.length >= maxQueue) {
+        return Promise.reject(new Error(`Inference queue full (${maxQueue} chunks waiting)`));
+      }
+      return new Promise((resolve, reject) => {
+        const job: Job = { model, text, resolve, reject, signal };
+        if (signal) {
+          // Drop the chunk if it is still waiting when the message times out, or
+          // replace the worker if its batch is still running
+          job.onAbort = () => {
+            if (queue.includes(job)) {
+              queue = queue.filter((j) => j !== job);
+              reject(abortReason(signal));
+              return;
+            }
+            const slot = slots.find((s) => s.jobs.includes(job));
+            if (slot) recycle(slot);
+          };
+          signal.addEventListener("abort", job.onAbort, { once: true });
+        }
+        queue.push(job);
+        schedule();
+      });
+    },
+
+    get queued() {
+      return queue.length;
+    },
+
+    async close() {
+      closed = true;
+      const pending = [...queue, ...slots.flatMap((s) => s.jobs)];
+      queue = [];
+      for (const job of pending) {
+        settle(job);
+        job.reject(new Error("Inference pool is closed"));
+      }
+      await Promise.all(slots.map((slot) => {
+        const worker = slot.worker;
+        slot.worker = null;
+        slot.jobs = [];
+        return worker?.terminate();
+      }));
+    },
+  };
+}
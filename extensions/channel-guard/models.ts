@@ -0,0 +1,235 @@
+/**
+ * Classifier models for channel-guard.
+ *
+ * Any Hugging Face text-classification model can back the guard, as long as
+ * it exposes an injection-like label. Models are loaded lazily, one pipeline
+ * per model, and can be combined into an ensemble whose per-model scores are
+ * reduced to a single score by a voting rule.
+ *
+ * By default the pipelines run in a worker-thread pool (inference.ts); only
+ * the tokenizer, which chunking needs synchronously, loads on the main thread.
+ * Before a model loads, its files are checked against the provisioning
+ * manifest (provision.ts), if it has an entry there.
+ */
+
+import * as os from "node:os";
+import * as path from "node:path";
+import { AutoTokenizer, pipeline, env } from "@huggingface/transformers";
+import { createInferencePool, type InferenceConfig, type InferencePool } from "./inference.ts";
+import { verifyModel } from "./provision.ts";
+
+export const DEFAULT_MODEL_ID = "ProtectAI/deberta-v3-base-prompt-injection-v2";
+export const DEFAULT_POSITIVE_LABELS = ["INJECTION"];
+// ProtectAI DeBERTa max input is 512 tokens including [CLS] and [SEP].
+export const DEFAULT_MAX_LENGTH = 512;
+
+export type ModelDtype = "fp32" | "fp16" | "q8";
+
+/**
+ * Voting rules for an ensemble:
+ *   any      — highest score of any model
+ *   majority — highest score reached by more than half of the models
+ *   weighted — weighted mean of all model scores
+ */
+export type VotingRule = "any" | "majority" | "weighted";
+
+export interface ModelConfig {
+  /**
+   * Hugging Face model ID, or a local model directory ("/abs/path", "~/path",
+   * or "./path" relative to cacheDir). Default: ProtectAI/deberta-v3-base-prompt-injection-v2
+   */
+  id?: string;
+  /** Labels that count as injection; the highest of their scores is used. Default: ["INJECTION"] */
+  positiveLabels?: string[];
+  /** ONNX weights variant. Default: "fp32" */
+  dtype?: ModelDtype;
+  /** Model max input in tokens, including special tokens. Default: 512 */
+  maxLength?: number;
+  /** Weight under the "weighted" voting rule. Default: 1 */
+  weight?: number;
+}
+
+export interface ResolvedModel {
+  /** Model ID as configured — used in logs and verdicts */
+  id: string;
+  /** ID or absolute path handed to the pipeline */
+  source: string;
+  local: boolean;
+  positiveLabels: string[];
+  dtype: ModelDtype;
+  maxLength: number;
+  weight: number;
+}
+
+function isLocalPath(id: string): boolean {
+  return path.isAbsolute(id) || id.startsWith("~/") || id.startsWith("./") || id.startsWith("../");
+}
+
+export function resolveModel(model: ModelConfig = {}, cacheDir?: string): ResolvedModel {
+  const id = model.id ?? DEFAULT_MODEL_ID;
+  const local = isLocalPath(id);
+  const source = !local
+    ? id
+    : id.startsWith("~/")
+      ? path.join(os.homedir(), id.slice(2))
+      : path.resolve(cacheDir ?? process.cwd(), id);
+  return {
+    id,
+    source,
+    local,
+    positiveLabels: model.positiveLabels ?? DEFAULT_POSITIVE_LABELS,
+    dtype: model.dtype ?? "fp32",
+    maxLength: model.maxLength ?? DEFAULT_MAX_LENGTH,
+    weight: model.weight ?? 1,
+  };
+}
+
+/** Models to run: cfg.models (ensemble), else cfg.model, else the default model. */
+export function resolveModels(
+  cfg: { model?: ModelConfig; models?: ModelConfig[]; cacheDir?: string },
+): ResolvedModel[] {
+  const models = cfg.models?.length ? cfg.models : [cfg.model ?? {}];
+  return models.map((m) => resolveModel(m, cfg.cacheDir));
+}
+
+/** Highest score among the model's positive labels in a pipeline result (0 if none). */
+export function positiveScore(results: any, positiveLabels: string[]): number {
+  const list = Array.isArray(results) ? results.flat() : [results];
+  let score = 0;
+  for (const r of list) {
+    if (positiveLabels.includes(r.label) && r.score > score) score = r.score;
+  }
+  return score;
+}
+
+/** Reduce per-model scores (same order as models) to one score. */
+export function combineScores(scores: number[], models: ResolvedModel[], rule: VotingRule): number {
+  if (scores.length === 1) return scores[0];
+  if (rule === "weighted") {
+    const total = models.reduce((sum, m) => sum + m.weight, 0);
+    if (total <= 0) return 0;
+    return scores.reduce((sum, s, i) => sum + s * models[i].weight, 0) / total;
+  }
+  if (rule === "majority") {
+    // The k-th highest score is the highest score at least k models reached
+    const sorted = [...scores].sort((a, b) => b - a);
+    return sorted[Math.floor(scores.length / 2)];
+  }
+  return Math.max(...scores);
+}
+
+export interface ClassifierOptions {
+  /** Aborts the classification (per-message deadline) */
+  signal?: AbortSignal;
+}
+
+/**
+ * A loaded classifier: called once per chunk, resolves with the pipeline's
+ * label list. `tokenizer` counts tokens for chunking.
+ */
+export type Classifier = ((text: string, opts?: ClassifierOptions) => Promise<any>) & { tokenizer?: any };
+
+type ModelSettings = {
+  cacheDir?: string;
+  inference?: InferenceConfig;
+  model?: ModelConfig;
+  models?: ModelConfig[];
+  allowRemoteModels?: boolean;
+  requireManifest?: boolean;
+};
+
+// Lazy per-model classifiers — each model loads on first use
+const classifiers = new Map<string, Promise<Classifier>>();
+// Integrity results are kept even when they fail: a tampered model stays refused until restart
+const verifications = new Map<string, Promise<void>>();
+let pool: InferencePool | null = null;
+
+function verifyOnce(model: ResolvedModel, cfg: ModelSettings): Promise<void> {
+  let verification = verifications.get(model.id);
+  if (!verification) {
+    const cacheDir = cfg.cacheDir ?? env.cacheDir;
+    verification = verifyModel(model, cacheDir, cfg.requireManifest ?? false).then(
+      (files) => {
+        if (files > 0) console.log(`[channel-guard] Verified ${model.id} against manifest (${files} files)`);
+      },
+      (err) => {
+        console.error(`[channel-guard] ${err.message} — refusing to load it`);
+        throw err;
+      },
+    );
+    verifications.set(model.id, verification);
+  }
+  return verification;
+}
+
+function loadInProcess(model: ResolvedModel): Promise<Classifier> {
+  return pipeline("text-classification", model.source, {
+    dtype: model.dtype as any,
+    ...(model.local && { local_files_only: true }),
+    progress_callback: (p: any) => {
+      if (p.status === "downloading" && p.progress != null) {
+        process.stdout.write(`\r[channel-guard] Downloading ${p.file}: ${Math.round(p.progress)}%`);
+      } else if (p.status === "done" && p.file) {
+        console.log(`\n[channel-guard] Cached: ${p.file}`);
+      }
+    },
+  }) as Promise<any>;
+}
+
+async function loadInWorkers(model: ResolvedModel, cfg: ModelSettings): Promise<Classifier> {
+  // Workers preload every configured model, so every one must pass the integrity check first
+  await Promise.all(resolveModels(cfg).map((m) => verifyOnce(m, cfg)));
+  // One pool for the plugin, preloading every configured model in each worker
+  pool ??= createInferencePool({
+    ...cfg.inference,
+    allowRemoteModels: cfg.allowRemoteModels ?? true,
+    models: resolveModels(cfg).map(({ id, source, local, dtype }) => ({ id, source, local, dtype })),
+    cacheDir: cfg.cacheDir,
+  });
+  const [tokenizer] = await Promise.all([
+    AutoTokenizer.from_pretrained(model.source, { ...(model.local && { local_files_only: true }) }),
+    pool.ready(),
+  ]);
+  const target = { id: model.id, source: model.source, local: model.local, dtype: model.dtype };
+  const classify: Classifier = (text, opts = {}) => pool!.classify(target, text, opts.signal);
+  classify.tokenizer = tokenizer;
+  return classify;
+}
+
+export function getClassifier(model: ResolvedModel, cfg: ModelSettings = {}): Promise<Classifier> {
+  // Test stubs registered under "*" stand in for every model
+  const existing = classifiers.get(model.id) ?? classifiers.get("*");
+  if (existing) return existing;
+
+  if (cfg.cacheDir) env.cacheDir = cfg.cacheDir;
+  if (cfg.allowRemoteModels === false) env.allowRemoteModels = false;
+  const sizeNote = model.id === DEFAULT_MODEL_ID && model.dtype === "fp32" ? " (first run downloads ~370MB)" : "";
+  console.log(`[channel-guard] Loading model ${model.id} (${model.dtype})${sizeNote}...`);
+  const inWorkers = (cfg.inference?.workers ?? 1) > 0;
+  const loading = verifyOnce(model, cfg)
+    .then(() => (inWorkers ? loadInWorkers(model, cfg) : loadInProcess(model)))
+    .catch((err) => {
+      classifiers.delete(model.id);
+      throw err;
+    });
+  classifiers.set(model.id, loading);
+  return loading;
+}
+
+/** Load every configured model (the per-message deadline starts after this). */
+export async function loadClassifiers(cfg: ModelSettings): Promise<void> {
+  await Promise.all(resolveModels(cfg).map((model) => getClassifier(model, cfg)));
+}
+
+/** Reset the cached classifiers and stop the worker pool (for testing) */
+export function _resetClassifier() {
+  classifiers.clear();
+  verifications.clear();
+  void pool?.close();
+  pool = null;
+}
+
+/** Replace a model's classifier with a stub — every model when no ID is given (for testing) */
+export function _setClassifier(classifier: any, modelId = "*") {
+  classifiers.set(modelId, Promise.resolve(classifier));
+}
@@ -0,0 +1,157 @@
+/**
+ * De-obfuscation pre-pass for channel-guard.
+ *
+ * DeBERTa is trained on plain text, so trivial obfuscation — zero-width
+ * characters, Cyrillic homoglyphs, full-width Latin, leetspeak, or an
+ * instruction hidden in base64 — drops its score below threshold. This
+ * module produces canonical variants of a message; each distinct variant is
+ * classified and the highest score wins, tagged with the transform that
+ * revealed it.
+ */
+
+export type Transform =
+  | "original"
+  | "normalized"
+  | "confusables"
+  | "leetspeak"
+  | "base64"
+  | "hex"
+  | "rot13";
+
+export interface TextVariant {
+  transform: Transform;
+  text: string;
+}
+
+// Zero-width, bidi controls, soft hyphen, fillers and variation selectors
+const INVISIBLE =
+  /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180B-\u180F\u200B-\u200F\u202A-\u202E\u2060-\u206F\u3164\uFE00-\uFE0F\uFEFF\uFFA0]|[\u{E0100}-\u{E01EF}]/gu;
+// Unicode tag characters mirror ASCII (U+E0020–U+E007E) and render invisibly ("ASCII smuggling")
+const TAG_CHARS = /[\u{E0000}-\u{E007F}]/gu;
+
+// Homoglyphs NFKC leaves alone: Cyrillic and Greek letters that render as Latin
+const CONFUSABLES: Record<string, string> = {
+  "\u0430": "a", "\u0432": "b", "\u0441": "c", "\u0501": "d", "\u0435": "e", "\u04BB": "h", "\u0456": "i", "\u0458": "j",
+  "\u043A": "k", "\u04CF": "l", "\u043C": "m", "\u043D": "h", "\u043E": "o", "\u0440": "p", "\u051B": "q", "\u0455": "s",
+  "\u0442": "t", "\u0443": "y", "\u051D": "w", "\u0445": "x", "\u0261": "g", "\u0251": "a", "\u0131": "i",
+  "\u0410": "A", "\u0412": "B", "\u0421": "C", "\u0415": "E", "\u041D": "H", "\u0406": "I", "\u0408": "J", "\u041A": "K",
+  "\u041C": "M", "\u041E": "O", "\u0420": "P", "\u0405": "S", "\u0422": "T", "\u0425": "X", "\u0423": "Y",
+  "\u03B1": "a", "\u03B2": "b", "\u03B5": "e", "\u03B7": "n", "\u03B9": "i", "\u03BA": "k", "\u03BD": "v", "\u03BF": "o",
+  "\u03C1": "p", "\u03C4": "t", "\u03C5": "u", "\u03C7": "x",
+  "\u0391": "A", "\u0392": "B", "\u0395": "E", "\u0396": "Z", "\u0397": "H", "\u0399": "I", "\u039A": "K", "\u039C": "M",
+  "\u039D": "N", "\u039F": "O", "\u03A1": "P", "\u03A4": "T", "\u03A5": "Y", "\u03A7": "X",
+};
+const CONFUSABLE_CHARS = new RegExp(`[${Object.keys(CONFUSABLES).join("")}]`, "g");
+
+const LEET: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "8": "b", "9": "g",
+  "@": "a", "$": "s", "!": "i", "|": "l",
+};
+// Words mixing letters with leet substitutes ("1gn0r3", "pr3v!ous")
+const LEET_WORD = /[A-Za-z0-9@$!|]*[A-Za-z][A-Za-z0-9@$!|]*/g;
+const LEET_CHAR = /[0-9@$!|]/;
+
+const BASE64_BLOB = /[A-Za-z0-9+/_-]{16,}={0,2}/g;
+const HEX_BLOB = /\b(?:[0-9a-fA-F]{2}){8,}\b|(?:\\x[0-9a-fA-F]{2}){4,}/g;
+
+// A few words that are frequent in English and in injections — used to decide
+// whether a decoded/rotated variant reads as language at all.
+const COMMON_WORDS = /\b(the|and|you|your|ignore|all|previous|instructions|system|prompt|now|are|to|of|is|that)\b/gi;
+
+/** NFKC, strip invisibles, and decode Unicode tag characters back to ASCII. */
+export function normalizeText(text: string): string {
+  return text
+    .replace(TAG_CHARS, (ch) => {
+      const ascii = ch.codePointAt(0)! - 0xE0000;
+      return ascii >= 0x20 && ascii <= 0x7E ? String.fromCharCode(ascii) : "";
+    })
+    .normalize("NFKC")
+    .replace(INVISIBLE, "");
+}
+
+/** Fold Cyrillic/Greek homoglyphs to Latin and strip diacritics. */
+export function foldConfusables(text: string): string {
+  return text
+    .replace(CONFUSABLE_CHARS, (ch) => CONFUSABLES[ch])
+    .normalize("NFD")
+    .replace(/\p{M}+/gu, "")
+    .normalize("NFC");
+}
+
+/**
+ * Undo leetspeak in words that mix letters with digit/symbol substitutes.
+ * Trailing symbols are left alone so ordinary punctuation ("hello!") is kept.
+ */
+export function decodeLeetspeak(text: string): string {
+  return text.replace(LEET_WORD, (word) => {
+    const body = word.replace(/[!|]+$/, "");
+    if (!LEET_CHAR.test(body)) return word;
+    return body.replace(/[0-9@$!|]/g, (ch) => LEET[ch]) + word.slice(body.length);
+  });
+}
+
+export function rot13(text: string): string {
+  return text.replace(/[A-Za-z]/g, (ch) => {
+    const base = ch <= "Z" ? 65 : 97;
+    return String.fromCharCode(((ch.charCodeAt(0) - base + 13) % 26) + base);
+  });
+}
+
+/** Mostly printable text with at least a few letters — not binary noise. */
+function isReadable(text: string): boolean {
+  if (text.length < 4) return false;
+  let printable = 0;
+  let letters = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code === 9 || code === 10 || code === 13 || (code >= 32 && code !== 0x7F && code !== 0xFFFD)) printable++;
+    if (/\p{L}/u.test(ch)) letters++;
+  }
+  return printable / [...text].length >= 0.95 && letters >= text.length * 0.5;
+}
+
+function countCommonWords(text: string): number {
+  return text.match(COMMON_WORDS)?.length ?? 0;
+}
+
+/** Replace base64 blobs that decode to readable text with the decoded text. */
+export function decodeBase64Blobs(text: string): string {
+  return text.replace(BASE64_BLOB, (blob) => {
+    const decoded = Buffer.from(blob.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf-8");
+    return isReadable(decoded) ? decoded : blob;
+  });
+}
+
+/** Replace hex blobs ("69676e6f7265…" or "\x69\x67…") that decode to readable text. */
+export function decodeHexBlobs(text: string): string {
+  return text.replace(HEX_BLOB, (blob) => {
+    const decoded = Buffer.from(blob.replace(/\\x/g, ""), "hex").toString("utf-8");
+    return isReadable(decoded) ? decoded : blob;
+  });
+}
+
+/**
+ * Canonical variants of a message, starting with the original. Each later
+ * variant builds on the normalized text and is only included when it differs
+ * from every variant before it, so clean messages yield a single entry.
+ */
+export function textVariants(text: string): TextVariant[] {
+  const variants: TextVariant[] = [{ transform: "original", text }];
+  const add = (transform: Transform, candidate: string) => {
+    if (!variants.some((v) => v.text === candidate)) variants.push({ transform, text: candidate });
+  };
+
+  const normalized = normalizeText(text);
+  add("normalized", normalized);
+  const folded = foldConfusables(normalized);
+  add("confusables", folded);
+  add("leetspeak", decodeLeetspeak(folded));
+  add("base64", decodeBase64Blobs(normalized));
+  add("hex", decodeHexBlobs(normalized));
+
+  // ROT13 only when the rotated text reads more like language than the original
+  const rotated = rot13(folded);
+  if (countCommonWords(rotated) > countCommonWords(folded)) add("rot13", rotated);
+
+  return variants;
+}
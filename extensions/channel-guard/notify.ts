@@ -0,0 +1,102 @@
+/**
+ * Sender notifications for channel-guard.
+ *
+ * Optionally tells the sender of a blocked message that it could not be
+ * processed, via the gateway's tool-invoke API (`message` tool). Replies are
+ * rate limited per sender and overall, and carry no score or reason, so a
+ * sender probing the classifier learns at most one bit per cooldown.
+ */
+
+export interface NotifyConfig {
+  /** Reply to the sender when their message is blocked. Default: false */
+  enabled?: boolean;
+  /** Minimum minutes between notifications to the same sender. Default: 60 */
+  cooldownMinutes?: number;
+  /** Notifications per rolling hour across all senders. Default: 20 */
+  maxPerHour?: number;
+  /** Gateway base URL. Default: http://127.0.0.1:18789 */
+  gatewayUrl?: string;
+}
+
+export interface Notification {
+  channel: string;
+  sender: string;
+  text: string;
+}
+
+export interface Notifier {
+  /** Send unless rate limited; returns whether the notification went out. */
+  notify(notification: Notification): boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+const MAX_TRACKED_SENDERS = 10_000;
+
+/** Deliver a notification through the gateway's `message` tool. */
+export async function sendViaGateway(
+  notification: Notification,
+  opts: { gatewayUrl?: string; token?: string; timeoutMs?: number } = {},
+): Promise<void> {
+  const gatewayUrl = (opts.gatewayUrl ?? "http://127.0.0.1:18789").replace(/\/+$/, "");
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs ?? 10_000);
+
+  let response: Response;
+  try {
+    response = await fetch(`${gatewayUrl}/tools/invoke`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(opts.token && { Authorization: `Bearer ${opts.token}` }),
+      },
+      body: JSON.stringify({
+        tool: "message",
+        args: {
+          action: "send",
+          channel: notification.channel,
+          target: notification.sender,
+          message: notification.text,
+        },
+      }),
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    throw new Error(`Notification failed: network error — ${err.message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Notification failed: gateway returned HTTP ${response.status}`);
+  }
+}
+
+export function createNotifier(
+  cfg: NotifyConfig,
+  send: (notification: Notification) => Promise<void>,
+): Notifier {
+  const cooldownMs = (cfg.cooldownMinutes ?? 60) * 60 * 1000;
+  const maxPerHour = cfg.maxPerHour ?? 20;
+  const lastSent = new Map<string, number>();
+  const sentTimes: number[] = [];
+
+  return {
+    notify(notification) {
+      const now = Date.now();
+      const key = `${notification.channel}\0${notification.sender}`;
+      const last = lastSent.get(key);
+      if (last !== undefined && now - last < cooldownMs) return false;
+      while (sentTimes.length > 0 && now - sentTimes[0] >= HOUR) sentTimes.shift();
+      if (sentTimes.length >= maxPerHour) return false;
+
+      lastSent.delete(key);
+      lastSent.set(key, now);
+      sentTimes.push(now);
+      // Oldest first — forget the longest-idle senders past the cap
+      while (lastSent.size > MAX_TRACKED_SENDERS) lastSent.delete(lastSent.keys().next().value!);
+
+      send(notification).catch((err) => console.error(`[channel-guard] ${err.message}`));
+      return true;
+    },
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Message part extraction for channel-guard.
+ *
+ * A message is more than its text: image captions, the quoted message a reply
+ * points at, shared contact cards and attached documents all reach the agent.
+ * extractParts() collects the text of every part so each can be classified,
+ * and the verdict can name the part that triggered it.
+ *
+ * Bridges differ in how they shape events, so fields are read best-effort
+ * (like getSender): attachments from message.attachments / attachments /
+ * media, each with a MIME type, file name, and either inline text, base64 or
+ * Buffer data, or a local file path. PDFs are read from their text layer
+ * (uncompressed or FlateDecode content streams) — scanned images, encrypted
+ * files and fonts without a usable encoding yield no text and are reported
+ * as skipped; AttachmentConfig.unscanned decides what happens to the message.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { inflateSync } from "node:zlib";
+
+export interface AttachmentConfig {
+  /** Scan text-like attachments and PDFs. Default: true */
+  enabled?: boolean;
+  /** Larger attachments are not read (and reported as skipped). Default: 5242880 (5 MB) */
+  maxBytes?: number;
+  /** Attachments with more extracted text are not classified (and reported as skipped). Default: 50000 */
+  maxChars?: number;
+  /** Extract PDF text layers. Default: true */
+  pdf?: boolean;
+  /**
+   * Messages with attachments that could not be scanned: block (and quarantine)
+   * them, deliver them with a warning, or deliver them as is.
+   * Default: "block" when failing closed, "warn" with failOpen
+   */
+  unscanned?: UnscannedPolicy;
+}
+
+export type UnscannedPolicy = "block" | "warn" | "allow";
+
+export type PartKind = "text" | "caption" | "quoted" | "contact" | "attachment" | "pdf";
+
+export interface MessagePart {
+  kind: PartKind;
+  /** File or contact name, when known */
+  name?: string;
+  text: string;
+}
+
+export interface ExtractedParts {
+  /** Parts with text, message body first */
+  parts: MessagePart[];
+  /** Parts that could not be scanned, with the reason */
+  skipped: string[];
+}
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".md", ".markdown", ".csv", ".tsv", ".json", ".xml", ".html", ".htm",
+  ".log", ".yaml", ".yml", ".ini", ".toml", ".ics", ".eml", ".rtf", ".srt",
+]);
+const VCARD_EXTENSIONS = new Set([".vcf", ".vcard"]);
+
+/** Human-readable name of a part, for logs and block reasons. */
+export function describePart(part: Pick<MessagePart, "kind" | "name">): string {
+  const name = part.name ? ` "${part.name}"` : "";
+  switch (part.kind) {
+    case "text": return "text";
+    case "caption": return `caption${name}`;
+    case "quoted": return "quoted message";
+    case "contact": return `contact card${name}`;
+    case "pdf": return `PDF${name}`;
+    default: return `attachment${name}`;
+  }
+}
+
+function asArray(value: any): any[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(value: any): string {
+  if (typeof value === "string") return value;
+  return String(value?.text ?? value?.body ?? value?.caption ?? "");
+}
+
+/** Decode a text file: UTF-8 unless a UTF-16 byte order mark says otherwise. */
+export function decodeText(data: Buffer): string {
+  if (data[0] === 0xff && data[1] === 0xfe) return data.subarray(2).toString("utf16le");
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    const swapped = Buffer.from(data.subarray(2));
+    swapped.swap16();
+    return swapped.toString("utf16le");
+  }
+  return data.toString("utf-8").replace(/^\uFEFF/, "");
+}
+
+/** Values of a vCard's properties (names, notes, URLs, ...), one per line. */
+export function vcardText(vcard: string): string {
+  return vcard
+    // Unfold continuation lines (RFC 6350 §3.2)
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.includes(":") && !/^(BEGIN|END|VERSION|PHOTO|LOGO|SOUND|KEY)\b/i.test(line))
+    .map((line) => line.slice(line.indexOf(":") + 1).replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1").replace(/;+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// PDF text layer
+// ---------------------------------------------------------------------------
+
+function pdfString(bytes: number[]): string {
+  const buf = Buffer.from(bytes);
+  // UTF-16BE text strings start with a byte order mark
+  if (buf[0] === 0xfe && buf[1] === 0xff) {
+    const swapped = Buffer.from(buf.subarray(2, buf.length - (buf.length % 2)));
+    swapped.swap16();
+    return swapped.toString("utf16le");
+  }
+  return buf.toString("latin1");
+}
+
+/** Read a literal string starting after "(" at i; returns its bytes and the index after ")". */
+function readLiteral(src: string, i: number): [number[], number] {
+  const bytes: number[] = [];
+  let depth = 1;
+  while (i < src.length) {
+    const ch = src[i++];
+    if (ch === "\\") {
+      const next = src[i++];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, "(": 40, ")": 41, "\\": 92 };
+      if (next in escapes) bytes.push(escapes[next]);
+      else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(src[i])) octal += src[i++];
+        bytes.push(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r" && src[i] === "\n") i++;
+      else if (next !== "\n" && next !== "\r") bytes.push(next.charCodeAt(0) & 0xff);
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) break;
+    bytes.push(ch.charCodeAt(0) & 0xff);
+  }
+  return [bytes, i];
+}
+
+/** Text shown by the Tj, TJ, ' and " operators of one content stream. */
+function contentText(src: string): string {
+  let out = "";
+  let operands: (string | string[])[] = [];
+  let array: string[] | null = null;
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "(") {
+      const [bytes, next] = readLiteral(src, i + 1);
+      (array ?? operands).push(pdfString(bytes));
+      i = next;
+    } else if (src.startsWith("<<", i) || src.startsWith(">>", i)) {
+      // Inline dictionaries (marked-content properties) carry no shown text
+      i += 2;
+    } else if (ch === "<") {
+      const end = src.indexOf(">", i);
+      if (end < 0) break;
+      const hex = src.slice(i + 1, end).replace(/\s+/g, "");
+      const bytes = (hex.length % 2 ? hex + "0" : hex).match(/../g)?.map((h) => parseInt(h, 16)) ?? [];
+      (array ?? operands).push(pdfString(bytes));
+      i = end + 1;
+    } else if (ch === "[") {
+      array = [];
+      i++;
+    } else if (ch === "]") {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (ch === "%") {
+      while (i < src.length && src[i] !== "\n" && src[i] !== "\r") i++;
+    } else if (/[-+.\d]/.test(ch)) {
+      const match = /^[-+]?\d*\.?\d+/.exec(src.slice(i, i + 32));
+      const token = match?.[0] ?? ch;
+      // A large negative kerning value inside TJ is a word gap
+      if (array && Number(token) < -200) array.push(" ");
+      i += token.length;
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const op = /^[A-Za-z'"*]+/.exec(src.slice(i, i + 8))![0];
+      i += op.length;
+      if (op === "Tj" || op === "'" || op === '"') {
+        const shown = operands.filter((o) => typeof o === "string").pop();
+        if (op !== "Tj") out += "\n";
+        if (shown) out += shown;
+      } else if (op === "TJ") {
+        const shown = operands.find((o) => Array.isArray(o)) as string[] | undefined;
+        if (shown) out += shown.join("");
+      } else if (op === "T*" || op === "Td" || op === "TD" || op === "ET") {
+        out += "\n";
+      } else if (op === "Tm") {
+        out += " ";
+      }
+      operands = [];
+    } else {
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Best-effort text layer of a PDF: the text operators of every content
+ * stream, inflating FlateDecode streams. Returns "" when nothing readable is
+ * found (scanned pages, encryption, unusual encodings).
+ */
+export function extractPdfText(data: Buffer): string {
+  const src = data.toString("latin1");
+  if (!src.startsWith("%PDF-") || /\/Encrypt\b/.test(src)) return "";
+
+  const texts: string[] = [];
+  const streamRe = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamRe.exec(src)) !== null) {
+    const start = match.index + match[0].length;
+    const end = src.indexOf("endstream", start);
+    if (end < 0) break;
+    const raw = data.subarray(start, end);
+    let content: string;
+    try {
+      content = inflateSync(raw).toString("latin1");
+    } catch {
+      content = raw.toString("latin1");
+    }
+    if (/\bBT\b/.test(content)) texts.push(contentText(content));
+    streamRe.lastIndex = end;
+  }
+  return texts
+    .join("\n")
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Parts
+// ---------------------------------------------------------------------------
+
+function attachmentKind(mime: string, name: string): "text" | "vcard" | "pdf" | null {
+  const ext = path.extname(name).toLowerCase();
+  if (mime.includes("vcard") || VCARD_EXTENSIONS.has(ext)) return "vcard";
+  if (mime === "application/pdf" || ext === ".pdf") return "pdf";
+  if (
+    mime.startsWith("text/") ||
+    /^application\/(json|xml|x-yaml|yaml|rtf)$/.test(mime) ||
+    /\+(json|xml)$/.test(mime) ||
+    TEXT_EXTENSIONS.has(ext)
+  ) {
+    return "text";
+  }
+  return null;
+}
+
+async function attachmentData(att: any, maxBytes: number): Promise<Buffer | string> {
+  const data = att.data ?? att.buffer ?? att.content;
+  if (data != null) {
+    const buf = typeof data === "string" ? Buffer.from(data, "base64") : Buffer.from(data);
+    if (buf.length > maxBytes) return `larger than ${maxBytes} bytes`;
+    return buf;
+  }
+  const file = att.path ?? att.localPath ?? att.filePath;
+  if (typeof file !== "string") return "no data";
+  const { size } = await fs.promises.stat(file);
+  if (size > maxBytes) return `larger than ${maxBytes} bytes`;
+  return fs.promises.readFile(file);
+}
+
+/** Collect the text of every part of an incoming message. */
+export async function extractParts(event: any, cfg: AttachmentConfig = {}): Promise<ExtractedParts> {
+  const maxBytes = cfg.maxBytes ?? 5 * 1024 * 1024;
+  const maxChars = cfg.maxChars ?? 50_000;
+  const message = event.message ?? {};
+  const parts: MessagePart[] = [];
+  const skipped: string[] = [];
+
+  const add = (part: MessagePart) => {
+    const text = part.text.trim();
+    // Some bridges repeat the caption as the message text
+    if (!text || parts.some((p) => p.text === text)) return;
+    parts.push({ ...part, text });
+  };
+  // The message's own parts are classified in full; a cap only applies to
+  // text extracted from attached files
+  const addFile = (part: MessagePart) => {
+    if (part.text.trim().length > maxChars) skipped.push(`${describePart(part)}: longer than ${maxChars} characters`);
+    else add(part);
+  };
+
+  add({ kind: "text", text: String(message.text ?? event.text ?? "") });
+  add({ kind: "caption", text: String(message.caption ?? event.caption ?? "") });
+  for (const quoted of asArray(message.quoted ?? message.quotedMessage ?? message.replyTo ?? event.quoted ?? event.replyTo)) {
+    add({ kind: "quoted", text: textOf(quoted) });
+  }
+  for (const contact of asArray(message.contacts ?? event.contacts)) {
+    const card = typeof contact === "string" ? contact : String(contact?.vcard ?? "");
+    add({ kind: "contact", name: contact?.displayName ?? contact?.name, text: vcardText(card) });
+  }
+
+  const attachments = asArray(message.attachments ?? event.attachments ?? message.media ?? event.media);
+  for (const att of attachments) {
+    const name = String(att.fileName ?? att.filename ?? att.name ?? "");
+    const mime = String(att.mimeType ?? att.mimetype ?? att.contentType ?? "").toLowerCase();
+    const label = describePart({ kind: "attachment", name: name || undefined });
+    if (att.caption) add({ kind: "caption", name: name || undefined, text: String(att.caption) });
+    if (typeof att.text === "string") {
+      addFile({ kind: "attachment", name: name || undefined, text: att.text });
+      continue;
+    }
+
+    const kind = attachmentKind(mime, name);
+    if (!kind || !(cfg.enabled ?? true)) continue;
+    if (kind === "pdf" && !(cfg.pdf ?? true)) continue;
+    try {
+      const data = await attachmentData(att, maxBytes);
+      if (typeof data === "string") {
+        skipped.push(`${label}: ${data}`);
+        continue;
+      }
+      if (kind === "pdf") {
+        const text = extractPdfText(data);
+        if (text) addFile({ kind: "pdf", name: name || undefined, text });
+        else skipped.push(`${describePart({ kind: "pdf", name: name || undefined })}: no text layer`);
+      } else if (kind === "vcard") {
+        addFile({ kind: "contact", name: name || undefined, text: vcardText(decodeText(data)) });
+      } else {
+        addFile({ kind: "attachment", name: name || undefined, text: decodeText(data) });
+      }
+    } catch (err: any) {
+      skipped.push(`${label}: ${err.message}`);
+    }
+  }
+
+  return { parts, skipped };
+}
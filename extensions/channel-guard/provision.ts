@@ -0,0 +1,155 @@
+/**
+ * Offline model provisioning and integrity checks for channel-guard.
+ *
+ * `cli.ts models provision` downloads a model into cacheDir (or takes a local
+ * model directory as is) and records a SHA-256 hash of every file in
+ * <cacheDir>/channel-guard-manifest.json. At load, the plugin re-hashes the
+ * files of each configured model and refuses to load one that no longer
+ * matches its manifest entry. Provision on a connected machine, copy cacheDir
+ * across, and set allowRemoteModels: false for air-gapped gateways.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pipeline, env } from "@huggingface/transformers";
+import type { ResolvedModel } from "./models.ts";
+
+export const MANIFEST_FILE = "channel-guard-manifest.json";
+
+export interface ManifestEntry {
+  /** Weight variants present when the model was provisioned */
+  dtypes: string[];
+  provisionedAt: string;
+  /** SHA-256 per file, keyed by path relative to the model directory */
+  files: Record<string, string>;
+}
+
+export interface Manifest {
+  version: 1;
+  models: Record<string, ManifestEntry>;
+}
+
+/** Where a model's files live: transformers.js caches hub models under <cacheDir>/<id>. */
+export function modelDir(model: ResolvedModel, cacheDir: string): string {
+  return model.local ? model.source : path.join(cacheDir, model.id);
+}
+
+export function hashFile(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(file)
+      .on("data", (data) => hash.update(data))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+function listFiles(dir: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+    const rel = path.posix.join(prefix, entry.name);
+    if (entry.isDirectory()) files.push(...listFiles(dir, rel));
+    else if (entry.isFile() && entry.name !== MANIFEST_FILE) files.push(rel);
+  }
+  return files.sort();
+}
+
+/** SHA-256 of every file under dir (streamed, so large ONNX files do not block the event loop). */
+export async function hashFiles(dir: string): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const rel of listFiles(dir)) {
+    hashes[rel] = await hashFile(path.join(dir, rel));
+  }
+  return hashes;
+}
+
+export function readManifest(cacheDir: string): Manifest | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(cacheDir, MANIFEST_FILE), "utf-8"));
+    return data?.version === 1 && data.models ? data : null;
+  } catch (err: any) {
+    if (err.code === "ENOENT") return null;
+    throw new Error(`Unreadable model manifest in ${cacheDir}: ${err.message}`);
+  }
+}
+
+/** Hash a model's files and record them in the manifest, replacing any previous entry. */
+export async function recordModel(model: ResolvedModel, cacheDir: string): Promise<ManifestEntry> {
+  const dir = modelDir(model, cacheDir);
+  const files = await hashFiles(dir);
+  if (Object.keys(files).length === 0) throw new Error(`No model files in ${dir}`);
+
+  const manifest = readManifest(cacheDir) ?? { version: 1, models: {} };
+  const previous = manifest.models[model.id];
+  const entry: ManifestEntry = {
+    dtypes: [...new Set([...(previous?.dtypes ?? []), model.dtype])].sort(),
+    provisionedAt: new Date().toISOString(),
+    files,
+  };
+  manifest.models[model.id] = entry;
+
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const file = path.join(cacheDir, MANIFEST_FILE);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(manifest, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+  return entry;
+}
+
+/**
+ * Check a model's files against the manifest. Throws when a recorded file is
+ * missing or changed, when the model was provisioned for another dtype, or —
+ * with `required` — when the model has no manifest entry. Returns the number
+ * of files verified (0 when unrecorded and not required).
+ */
+export async function verifyModel(
+  model: ResolvedModel,
+  cacheDir: string,
+  required = false,
+): Promise<number> {
+  const entry = readManifest(cacheDir)?.models[model.id];
+  if (!entry) {
+    if (required) {
+      throw new Error(`Model ${model.id} is not in the manifest at ${path.join(cacheDir, MANIFEST_FILE)} — run "cli.ts models provision"`);
+    }
+    return 0;
+  }
+  if (!entry.dtypes.includes(model.dtype)) {
+    throw new Error(`Model ${model.id} was provisioned for ${entry.dtypes.join(", ")}, not ${model.dtype}`);
+  }
+
+  const dir = modelDir(model, cacheDir);
+  const problems: string[] = [];
+  for (const [rel, expected] of Object.entries(entry.files)) {
+    const file = path.join(dir, rel);
+    if (!fs.existsSync(file)) problems.push(`${rel} missing`);
+    else if ((await hashFile(file)) !== expected) problems.push(`${rel} modified`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Model ${model.id} failed integrity check: ${problems.join(", ")}`);
+  }
+  return Object.keys(entry.files).length;
+}
+
+/**
+ * Fetch a model into cacheDir (hub models) or check that a local model
+ * directory loads, then record its file hashes in the manifest.
+ */
+export async function provisionModel(model: ResolvedModel, cacheDir: string): Promise<ManifestEntry> {
+  env.cacheDir = cacheDir;
+  env.allowRemoteModels = !model.local;
+  const classifier = await pipeline("text-classification", model.source, {
+    dtype: model.dtype as any,
+    ...(model.local && { local_files_only: true }),
+    progress_callback: (p: any) => {
+      if (p.status === "downloading" && p.progress != null) {
+        process.stdout.write(`\r[channel-guard] Downloading ${p.file}: ${Math.round(p.progress)}%`);
+      } else if (p.status === "done" && p.file) {
+        console.log(`\n[channel-guard] Cached: ${p.file}`);
+      }
+    },
+  });
+  await classifier.dispose();
+  return recordModel(model, cacheDir);
+}
@@ -0,0 +1,218 @@
+/**
+ * Quarantine store for channel-guard.
+ *
+ * Blocked (and optionally warned) messages are kept as one JSON file per item
+ * under <stateDir>/quarantine, with the full text and verdict, so an operator
+ * can review false positives and release them to the agent instead of losing
+ * them. Shared by the gateway hook (write) and the operator CLI (list, show,
+ * release, purge).
+ */
+
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describePart, type MessagePart } from "./parts.ts";
+
+export interface QuarantineConfig {
+  /** Store blocked messages. Default: true */
+  enabled?: boolean;
+  /** Also store messages that only triggered a warning. Default: false */
+  includeWarnings?: boolean;
+  /** Delete items older than this many days. 0 keeps them forever. Default: 30 */
+  retentionDays?: number;
+}
+
+export interface QuarantineItem {
+  id: string;
+  createdAt: number;
+  channel: string;
+  sender: string;
+  action: "warn" | "block";
+  /** Why the message was held: classifier verdict, muted sender, unscannable attachment, or guard failure (fail closed) */
+  reason: "injection" | "muted" | "unscanned" | "guard-error";
+  score: number;
+  /** Policy profile that produced the verdict */
+  profile: string;
+  /** Full message text as received */
+  text: string;
+  /** IDs of the conversation window messages, when the verdict came from the window */
+  messageIds?: string[];
+  /** Part that triggered the verdict when it was not the message text (e.g. `attachment "notes.txt"`) */
+  part?: string;
+  /** Text of every scanned part, for messages with more than one */
+  parts?: { kind: string; name?: string; text: string }[];
+  /** Attachments that could not be scanned, with the reason */
+  unscanned?: string[];
+  status: "quarantined" | "released";
+  releasedAt?: number;
+  releasedTo?: string;
+}
+
+export interface ReleaseTarget {
+  /** Gateway base URL. Default: http://127.0.0.1:18789 */
+  gatewayUrl?: string;
+  /** Gateway auth token (OPENCLAW_GATEWAY_TOKEN). */
+  token?: string;
+  /** Agent to deliver the released message to. Default: "main" */
+  agent?: string;
+  timeoutMs?: number;
+}
+
+export const QUARANTINE_DIR = "quarantine";
+
+const ID_PATTERN = /^[0-9]{8}T[0-9]{6}-[0-9a-f]{6}$/;
+const DAY = 24 * 60 * 60 * 1000;
+
+function newId(now: number): string {
+  const stamp = new Date(now).toISOString().replace(/[-:]/g, "").slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+function itemPath(dir: string, id: string): string {
+  // IDs come from the CLI — never let them escape the quarantine dir
+  if (!ID_PATTERN.test(id)) throw new Error(`Invalid quarantine ID: ${id}`);
+  return path.join(dir, `${id}.json`);
+}
+
+function writeItem(dir: string, item: QuarantineItem): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = itemPath(dir, item.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(item, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+/** Store a flagged message and return the new quarantine item. */
+export function quarantineMessage(
+  dir: string,
+  entry: Omit<QuarantineItem, "id" | "createdAt" | "status">,
+  now = Date.now(),
+): QuarantineItem {
+  const item: QuarantineItem = { id: newId(now), createdAt: now, status: "quarantined", ...entry };
+  writeItem(dir, item);
+  return item;
+}
+
+/** Read one item, or null if it does not exist. */
+export function getQuarantined(dir: string, id: string): QuarantineItem | null {
+  try {
+    return JSON.parse(fs.readFileSync(itemPath(dir, id), "utf-8"));
+  } catch (err: any) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** All items, oldest first. Unreadable files are skipped. */
+export function listQuarantine(dir: string): QuarantineItem[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const items: QuarantineItem[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json") || !ID_PATTERN.test(file.slice(0, -5))) continue;
+    try {
+      items.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")));
+    } catch {
+      console.warn(`[channel-guard] Skipping unreadable quarantine item ${file}`);
+    }
+  }
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Mark an item as released. Returns the updated item, or null if unknown. */
+export function markReleased(
+  dir: string,
+  id: string,
+  releasedTo: string,
+  now = Date.now(),
+): QuarantineItem | null {
+  const item = getQuarantined(dir, id);
+  if (!item) return null;
+  const updated: QuarantineItem = { ...item, status: "released", releasedAt: now, releasedTo };
+  writeItem(dir, updated);
+  return updated;
+}
+
+/** Delete a single item. Returns false if it did not exist. */
+export function purgeItem(dir: string, id: string): boolean {
+  try {
+    fs.unlinkSync(itemPath(dir, id));
+    return true;
+  } catch (err: any) {
+    if (err.code === "ENOENT") return false;
+    throw err;
+  }
+}
+
+/** Delete items created more than `olderThanDays` ago (0 = all). Returns the number removed. */
+export function purgeQuarantine(dir: string, olderThanDays: number, now = Date.now()): number {
+  const cutoff = now - olderThanDays * DAY;
+  let removed = 0;
+  for (const item of listQuarantine(dir)) {
+    if (olderThanDays > 0 && item.createdAt >= cutoff) continue;
+    if (purgeItem(dir, item.id)) removed++;
+  }
+  return removed;
+}
+
+/**
+ * Message delivered to the agent on release — marks the text as
+ * operator-reviewed. Captions, quoted messages and attachment text follow the
+ * message text; the files themselves are not re-sent, and attachments that
+ * could not be scanned are only named.
+ */
+export function formatRelease(item: QuarantineItem): string {
+  const sections = [
+    `[Released from channel-guard quarantine by operator — originally from ` +
+      `${item.sender || "unknown sender"} via ${item.channel} at ` +
+      `${new Date(item.createdAt).toISOString()}]`,
+    item.text,
+  ];
+  for (const part of item.parts?.slice(1) ?? []) {
+    sections.push(`--- ${describePart(part as MessagePart)} ---\n${part.text}`);
+  }
+  if (item.unscanned) {
+    sections.push(`[Not included — could not be scanned: ${item.unscanned.join("; ")}]`);
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Re-inject a quarantined message into an agent via the gateway's
+ * OpenAI-compatible HTTP API. The HTTP API does not fire message_received,
+ * so the released message is not re-scanned.
+ */
+export async function releaseToGateway(item: QuarantineItem, target: ReleaseTarget): Promise<void> {
+  const gatewayUrl = (target.gatewayUrl ?? "http://127.0.0.1:18789").replace(/\/+$/, "");
+  const agent = target.agent ?? "main";
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), target.timeoutMs ?? 30_000);
+
+  let response: Response;
+  try {
+    response = await fetch(`${gatewayUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(target.token && { Authorization: `Bearer ${target.token}` }),
+      },
+      body: JSON.stringify({
+        model: `openclaw:${agent}`,
+        messages: [{ role: "user", content: formatRelease(item) }],
+      }),
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    throw new Error(`Release failed: network error — ${err.message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Release failed: gateway returned HTTP ${response.status}`);
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Sender reputation for channel-guard.
+ *
+ * Tracks recent warn/block verdicts per sender as a decaying strike score.
+ * Strikes decay exponentially (half-life), so a single false positive fades
+ * within the hour while a burst of hits escalates: first to lowered
+ * thresholds, then to a temporary mute where messages are blocked without
+ * classification.
+ *
+ * Persisted as JSON in the plugin state dir. Pure functions over a plain
+ * object plus load/save, so the gateway hook and the operator CLI share one
+ * implementation.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export interface ReputationConfig {
+  /** Track sender reputation. Default: true */
+  enabled?: boolean;
+  /** Minutes for a strike to lose half its weight. Default: 30 */
+  halfLifeMinutes?: number;
+  /** Strikes at which thresholds are lowered. Default: 3 */
+  escalateAt?: number;
+  /** Amount subtracted from sensitivity and thresholds once escalated. Default: 0.15 */
+  thresholdReduction?: number;
+  /** Strikes at which the sender is muted. Default: 6 */
+  muteAt?: number;
+  /** Mute duration in minutes. Default: 60 */
+  muteMinutes?: number;
+}
+
+export interface VerdictRecord {
+  at: number;
+  action: "warn" | "block";
+  score: number;
+  channel: string;
+}
+
+export interface SenderRecord {
+  /** Strike score as of updatedAt (decays from there) */
+  strikes: number;
+  updatedAt: number;
+  mutedUntil?: number;
+  /** Most recent verdicts, newest last */
+  recent: VerdictRecord[];
+}
+
+export interface ReputationDb {
+  version: 1;
+  senders: Record<string, SenderRecord>;
+}
+
+export interface Standing {
+  strikes: number;
+  escalated: boolean;
+  muted: boolean;
+  mutedUntil?: number;
+}
+
+const DEFAULTS: Required<ReputationConfig> = {
+  enabled: true,
+  halfLifeMinutes: 30,
+  escalateAt: 3,
+  thresholdReduction: 0.15,
+  muteAt: 6,
+  muteMinutes: 60,
+};
+
+// Strike weight per verdict
+const WEIGHTS = { warn: 1, block: 2 } as const;
+const MAX_RECENT = 20;
+// Records below this (and not muted) are dropped on save
+const PRUNE_BELOW = 0.05;
+// Thresholds never drop below this floor, however bad the reputation
+const MIN_THRESHOLD = 0.1;
+
+export const REPUTATION_FILE = "reputation.json";
+
+export function resolveReputationConfig(cfg: ReputationConfig = {}): Required<ReputationConfig> {
+  return { ...DEFAULTS, ...cfg };
+}
+
+export function emptyDb(): ReputationDb {
+  return { version: 1, senders: {} };
+}
+
+/** Load the reputation store. Missing or malformed files yield an empty store. */
+export function loadReputation(file: string): ReputationDb {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (parsed?.version === 1 && parsed.senders && typeof parsed.senders === "object") {
+      return parsed as ReputationDb;
+    }
+    console.warn(`[channel-guard] Ignoring malformed reputation store at ${file}`);
+  } catch (err: any) {
+    if (err.code !== "ENOENT") {
+      console.warn(`[channel-guard] Failed to read reputation store: ${err.message}`);
+    }
+  }
+  return emptyDb();
+}
+
+/** Atomically write the store (temp file + rename), pruning fully decayed senders. */
+export function saveReputation(
+  file: string,
+  db: ReputationDb,
+  cfg: ReputationConfig = {},
+  now = Date.now(),
+): void {
+  const resolved = resolveReputationConfig(cfg);
+  for (const [sender, record] of Object.entries(db.senders)) {
+    const muted = record.mutedUntil !== undefined && record.mutedUntil > now;
+    if (!muted && decayedStrikes(record, now, resolved) < PRUNE_BELOW) {
+      delete db.senders[sender];
+    }
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(db, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+function decayedStrikes(record: SenderRecord, now: number, cfg: Required<ReputationConfig>): number {
+  const elapsed = Math.max(0, now - record.updatedAt);
+  const halfLifeMs = cfg.halfLifeMinutes * 60_000;
+  return record.strikes * Math.pow(0.5, elapsed / halfLifeMs);
+}
+
+/** Current standing of a sender, with decay applied. */
+export function getStanding(
+  db: ReputationDb,
+  sender: string,
+  cfg: ReputationConfig = {},
+  now = Date.now(),
+): Standing {
+  const resolved = resolveReputationConfig(cfg);
+  const record = db.senders[sender];
+  if (!record) return { strikes: 0, escalated: false, muted: false };
+
+  const strikes = decayedStrikes(record, now, resolved);
+  const muted = record.mutedUntil !== undefined && record.mutedUntil > now;
+  return {
+    strikes,
+    escalated: strikes >= resolved.escalateAt,
+    muted,
+    ...(muted && { mutedUntil: record.mutedUntil }),
+  };
+}
+
+/** Record a warn/block verdict and return the sender's new standing. */
+export function recordVerdict(
+  db: ReputationDb,
+  sender: string,
+  verdict: Omit<VerdictRecord, "at">,
+  cfg: ReputationConfig = {},
+  now = Date.now(),
+): Standing {
+  const resolved = resolveReputationConfig(cfg);
+  const existing = db.senders[sender];
+  const strikes = (existing ? decayedStrikes(existing, now, resolved) : 0) + WEIGHTS[verdict.action];
+  const record: SenderRecord = {
+    strikes,
+    updatedAt: now,
+    mutedUntil: existing?.mutedUntil,
+    recent: [...(existing?.recent ?? []), { at: now, ...verdict }].slice(-MAX_RECENT),
+  };
+  if (strikes >= resolved.muteAt && !(record.mutedUntil && record.mutedUntil > now)) {
+    record.mutedUntil = now + resolved.muteMinutes * 60_000;
+  }
+  db.senders[sender] = record;
+  return getStanding(db, sender, resolved, now);
+}
+
+/** Forget everything about a sender. Returns false if the sender was unknown. */
+export function resetSender(db: ReputationDb, sender: string): boolean {
+  if (!(sender in db.senders)) return false;
+  delete db.senders[sender];
+  return true;
+}
+
+/** Lower sensitivity and warn/block thresholds for an escalated sender, never below the floor. */
+export function escalateThresholds<
+  T extends { sensitivity?: number; warnThreshold?: number; blockThreshold?: number },
+>(cfg: T, standing: Standing, repCfg: ReputationConfig = {}): T {
+  if (!standing.escalated) return cfg;
+  const { thresholdReduction } = resolveReputationConfig(repCfg);
+  const lower = (value: number) => Math.max(MIN_THRESHOLD, value - thresholdReduction);
+  return {
+    ...cfg,
+    sensitivity: lower(cfg.sensitivity ?? 0.5),
+    warnThreshold: lower(cfg.warnThreshold ?? 0.4),
+    blockThreshold: lower(cfg.blockThreshold ?? 0.8),
+  };
+}
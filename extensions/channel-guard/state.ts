@@ -0,0 +1,26 @@
+/**
+ * State directory resolution for channel-guard.
+ *
+ * Kept apart from index.ts so the operator CLI can find the plugin's state
+ * (reputation, quarantine, verdict cache) without loading the model runtime.
+ */
+
+import * as os from "node:os";
+import * as path from "node:path";
+
+/**
+ * Resolve the plugin's state directory: cfg.stateDir, else the gateway's
+ * state dir (runtime API, then OPENCLAW_STATE_DIR), else ~/.openclaw.
+ */
+export function resolveStateDir(api: any, cfg: { stateDir?: string }): string {
+  if (cfg.stateDir) {
+    return cfg.stateDir.startsWith("~/")
+      ? path.join(os.homedir(), cfg.stateDir.slice(2))
+      : path.resolve(cfg.stateDir);
+  }
+  const base =
+    api?.runtime?.state?.resolveStateDir?.() ??
+    process.env.OPENCLAW_STATE_DIR ??
+    path.join(os.homedir(), ".openclaw");
+  return path.join(base, "plugins", "channel-guard");
+}
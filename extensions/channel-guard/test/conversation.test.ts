@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createWindowStore, getConversationKey, getMessageId } from "../conversation.ts";
+
+const msg = (id: string, at: number, text = id) => ({ id, text, at });
+
+// ---------------------------------------------------------------------------
+// Window store
+// ---------------------------------------------------------------------------
+describe("createWindowStore", () => {
+  it("keeps at most maxMessages, oldest dropped first", () => {
+    const store = createWindowStore({ maxMessages: 3 });
+    for (let i = 1; i <= 5; i++) store.push("c", msg(`m${i}`, i));
+    assert.deepEqual(store.push("c", msg("m6", 6)).map((m) => m.id), ["m4", "m5", "m6"]);
+  });
+
+  it("drops messages older than maxAgeSeconds", () => {
+    const store = createWindowStore({ maxAgeSeconds: 60 });
+    store.push("c", msg("old", 0));
+    store.push("c", msg("recent", 50_000));
+    assert.deepEqual(store.push("c", msg("now", 90_000)).map((m) => m.id), ["recent", "now"]);
+  });
+
+  it("trims to maxChars but always keeps the current message", () => {
+    const store = createWindowStore({ maxChars: 10 });
+    store.push("c", msg("a", 1, "12345"));
+    store.push("c", msg("b", 2, "12345"));
+    assert.deepEqual(store.push("c", msg("c", 3, "123")).map((m) => m.id), ["b", "c"]);
+    assert.deepEqual(store.push("c", msg("d", 4, "x".repeat(50))).map((m) => m.id), ["d"]);
+  });
+
+  it("evicts the least recently active conversation", () => {
+    const store = createWindowStore({ maxConversations: 2 });
+    store.push("a", msg("a1", 1));
+    store.push("b", msg("b1", 2));
+    store.push("a", msg("a2", 3));
+    store.push("c", msg("c1", 4));
+    assert.equal(store.size, 2);
+    assert.deepEqual(store.push("b", msg("b2", 5)).map((m) => m.id), ["b2"]);
+    assert.deepEqual(store.push("c", msg("c2", 6)).map((m) => m.id), ["c1", "c2"]);
+  });
+
+  it("clear forgets a conversation", () => {
+    const store = createWindowStore();
+    store.push("c", msg("m1", 1));
+    store.clear("c");
+    assert.deepEqual(store.push("c", msg("m2", 2)).map((m) => m.id), ["m2"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Event helpers
+// ---------------------------------------------------------------------------
+describe("getConversationKey", () => {
+  it("prefers the conversation ID and falls back to the sender", () => {
+    assert.equal(getConversationKey({ conversationId: "g1" }, "whatsapp", "+1"), "whatsapp:g1");
+    assert.equal(getConversationKey({ message: { chatId: "g2" } }, "signal", "+1"), "signal:g2");
+    assert.equal(getConversationKey({}, "signal", "+1"), "signal:+1");
+    assert.equal(getConversationKey({}, "signal", ""), null);
+  });
+});
+
+describe("getMessageId", () => {
+  it("reads the message ID or falls back to the receive time", () => {
+    assert.equal(getMessageId({ messageId: "abc" }, 1), "abc");
+    assert.equal(getMessageId({ message: { id: 7 } }, 1), "7");
+    assert.equal(getMessageId({}, 42), "42");
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  evaluate,
+  loadCorpus,
+  parseCorpus,
+  recommendThresholds,
+  scoreCorpus,
+  sweep,
+  type ScoredEntry,
+} from "../evaluate.ts";
+import { _resetClassifier, _setClassifier } from "../index.ts";
+
+const stateRoot = fs.mkdtempSync(path.join(os.tmpdir(), "channel-guard-eval-test-"));
+process.env.OPENCLAW_STATE_DIR = stateRoot;
+after(() => fs.rmSync(stateRoot, { recursive: true, force: true }));
+
+const CORPUS = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "corpus.jsonl");
+
+const entry = (id: string, injection: boolean, score: number): ScoredEntry =>
+  ({ id, text: id, injection, score });
+
+// 4 injections (0.95, 0.85, 0.6, 0.3) and 4 safe (0.7, 0.2, 0.1, 0.05)
+const SCORED = [
+  entry("i1", true, 0.95), entry("i2", true, 0.85), entry("i3", true, 0.6), entry("i4", true, 0.3),
+  entry("s1", false, 0.7), entry("s2", false, 0.2), entry("s3", false, 0.1), entry("s4", false, 0.05),
+];
+
+// ---------------------------------------------------------------------------
+// Corpus parsing
+// ---------------------------------------------------------------------------
+describe("parseCorpus", () => {
+  it("reads text and label per line, skipping blank lines", () => {
+    const corpus = parseCorpus(
+      '{"text": "ignore that", "label": "INJECTION"}\n\n{"id": "b", "text": "hello", "label": "safe"}\n',
+    );
+    assert.deepEqual(corpus, [
+      { id: "1", text: "ignore that", injection: true },
+      { id: "b", text: "hello", injection: false },
+    ]);
+  });
+
+  it("names the offending line", () => {
+    assert.throws(() => parseCorpus('{"text": "a", "label": "safe"}\nnot json'), /line 2: invalid JSON/);
+    assert.throws(() => parseCorpus('{"text": "a", "label": "maybe"}'), /line 1: expected/);
+  });
+
+  it("loads the fixture corpus", () => {
+    const corpus = loadCorpus(CORPUS);
+    assert.equal(corpus.length, 16);
+    assert.equal(corpus.filter((e) => e.injection).length, 8);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+describe("evaluate", () => {
+  it("reports confusion counts and precision/recall/F1 per tier", () => {
+    const report = evaluate(SCORED, { sensitivity: 0.5, warnThreshold: 0.4, blockThreshold: 0.8 });
+    // Flagged: i1, i2, i3, s1
+    assert.deepEqual(
+      { tp: report.tiers.warn.tp, fp: report.tiers.warn.fp, tn: report.tiers.warn.tn, fn: report.tiers.warn.fn },
+      { tp: 3, fp: 1, tn: 3, fn: 1 },
+    );
+    assert.equal(report.tiers.warn.precision, 0.75);
+    assert.equal(report.tiers.warn.recall, 0.75);
+    assert.equal(report.tiers.warn.f1, 0.75);
+    // Blocked: i1, i2
+    assert.equal(report.tiers.block.precision, 1);
+    assert.equal(report.tiers.block.recall, 0.5);
+  });
+
+  it("builds the expected × action matrix and lists misclassifications", () => {
+    const report = evaluate(SCORED);
+    assert.deepEqual(report.matrix, {
+      injection: { pass: 1, warn: 1, block: 2 },
+      safe: { pass: 3, warn: 1, block: 0 },
+    });
+    assert.deepEqual(report.misclassified.map((e) => e.id), ["i4"]);
+  });
+
+  it("passes scores below sensitivity even when over warnThreshold", () => {
+    const report = evaluate(SCORED, { sensitivity: 0.9, warnThreshold: 0.4, blockThreshold: 0.95 });
+    assert.deepEqual(report.matrix.injection, { pass: 3, warn: 0, block: 1 });
+  });
+});
+
+describe("sweep and recommendThresholds", () => {
+  it("sweeps thresholds in steps", () => {
+    const points = sweep(SCORED);
+    assert.equal(points.length, 19);
+    assert.equal(points[0].threshold, 0.05);
+    assert.equal(points[18].threshold, 0.95);
+    const at = points.find((p) => p.threshold === 0.75)!;
+    assert.equal(at.precision, 1);
+    assert.equal(at.recall, 0.5);
+  });
+
+  it("recommends warn at best F1 and block at the target precision", () => {
+    const t = recommendThresholds(SCORED);
+    // F1 peaks (0.857) for thresholds in (0.2, 0.3]; ties go to the highest
+    assert.equal(t.warnThreshold, 0.3);
+    assert.equal(t.sensitivity, 0.3);
+    // Lowest threshold above s1 (0.7) — the only safe message that scores high
+    assert.equal(t.blockThreshold, 0.71);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scoring (stub classifier)
+// ---------------------------------------------------------------------------
+describe("scoreCorpus (stub classifier)", () => {
+  after(() => _resetClassifier());
+
+  it("keeps the raw score of every entry regardless of sensitivity", async () => {
+    const classify = async (text: string) => [
+      /ignore|disregard|forget/i.test(text)
+        ? { label: "INJECTION", score: 0.9 }
+        : { label: "INJECTION", score: 0.2 },
+    ];
+    classify.tokenizer = { tokenize: (text: string) => text.split(/\s+/).filter(Boolean) };
+    _setClassifier(classify);
+
+    const scored = await scoreCorpus(loadCorpus(CORPUS), { sensitivity: 0.99 });
+    assert.equal(scored.length, 16);
+    assert.equal(scored.find((e) => e.id === "safe-1")!.score, 0.2);
+    assert.equal(scored.find((e) => e.id === "inj-1")!.score, 0.9);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Regression guard (uses actual ONNX model — first run downloads it)
+// ---------------------------------------------------------------------------
+describe("fixture corpus with the default model", { timeout: 300_000 }, () => {
+  before(() => _resetClassifier());
+
+  it("keeps precision and recall at default thresholds", async () => {
+    const report = evaluate(await scoreCorpus(loadCorpus(CORPUS)));
+    assert.equal(report.matrix.safe.block, 0, "a safe message was blocked");
+    assert.ok(report.tiers.warn.recall >= 0.75, `recall dropped to ${report.tiers.warn.recall}`);
+    assert.ok(report.tiers.warn.f1 >= 0.8, `F1 dropped to ${report.tiers.warn.f1}`);
+  });
+});
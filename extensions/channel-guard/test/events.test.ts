@@ -0,0 +1,75 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createEventLog, eventVerdict, type DetectionEvent } from "../events.ts";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "channel-guard-events-test-"));
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+const event = (overrides: Partial<DetectionEvent> = {}): DetectionEvent => ({
+  at: "2026-10-19T18:30:00.000Z",
+  channel: "whatsapp",
+  sender: "+46701234567",
+  messageId: "m1",
+  profile: "default",
+  mode: "shadow",
+  action: "warn",
+  score: 0.55,
+  latencyMs: 12.3,
+  ...overrides,
+});
+
+const readLines = (file: string) => fs.readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+
+// ---------------------------------------------------------------------------
+// Event fields
+// ---------------------------------------------------------------------------
+describe("eventVerdict", () => {
+  it("keeps tier, score and span but not the chunk text", () => {
+    const fields = eventVerdict(
+      { action: "block", label: "INJECTION", score: 0.97, chunk: "ignore all", span: { start: 4, end: 14 } },
+      8.26,
+    );
+    assert.deepEqual(fields, {
+      action: "block", score: 0.97, label: "INJECTION", span: { start: 4, end: 14 }, latencyMs: 8.3,
+    });
+  });
+
+  it("omits the label for passes", () => {
+    assert.equal(eventVerdict({ action: "pass", label: "SAFE", score: 0 }, 1).label, undefined);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Event log
+// ---------------------------------------------------------------------------
+describe("createEventLog", () => {
+  it("appends one JSON line per event, creating the directory", () => {
+    const file = path.join(tmp, "nested", "detections.jsonl");
+    const log = createEventLog(file);
+    log.write(event());
+    log.write(event({ messageId: "m2", action: "pass", score: 0 }));
+    assert.deepEqual(readLines(file).map((e) => e.messageId), ["m1", "m2"]);
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+  });
+
+  it("skips passes unless they disagree with the candidate when includePass is off", () => {
+    const file = path.join(tmp, "no-pass.jsonl");
+    const log = createEventLog(file, { includePass: false });
+    log.write(event({ messageId: "a", action: "pass", score: 0 }));
+    log.write(event({ messageId: "b", action: "pass", score: 0, candidate: { action: "warn", score: 0.5, latencyMs: 1 }, disagreement: true }));
+    log.write(event({ messageId: "c" }));
+    assert.deepEqual(readLines(file).map((e) => e.messageId), ["b", "c"]);
+  });
+
+  it("rotates to .1 past maxBytes", () => {
+    const file = path.join(tmp, "rotate.jsonl");
+    const maxBytes = JSON.stringify(event()).length * 2 + 10;
+    const log = createEventLog(file, { maxBytes });
+    for (const id of ["m1", "m2", "m3"]) log.write(event({ messageId: id }));
+    assert.deepEqual(readLines(`${file}.1`).map((e) => e.messageId), ["m1", "m2"]);
+    assert.deepEqual(readLines(file).map((e) => e.messageId), ["m3"]);
+  });
+});
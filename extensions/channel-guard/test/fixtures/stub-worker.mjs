@@ -0,0 +1,22 @@
+// Stand-in for inference-worker.mjs: same protocol, no model.
+// "ignore" scores as injection, "slow" takes 200ms, "hang" never answers,
+// "crash" kills the worker. "stalled/model" never finishes loading.
+import { parentPort, workerData } from "node:worker_threads";
+
+if (!workerData.models.some((m) => m.id === "stalled/model")) {
+  parentPort.postMessage(
+    workerData.models.some((m) => m.id === "broken/model")
+      ? { ready: false, error: "model not found" }
+      : { ready: true },
+  );
+}
+
+parentPort.on("message", async ({ texts }) => {
+  if (texts.includes("crash")) process.exit(1);
+  if (texts.includes("hang")) return;
+  if (texts.includes("slow")) await new Promise((resolve) => setTimeout(resolve, 200));
+  const results = texts.map((text) => [
+    { label: "INJECTION", score: text.includes("ignore") ? 0.99 : 0.01, batch: texts.length },
+  ]);
+  parentPort.postMessage({ results });
+});
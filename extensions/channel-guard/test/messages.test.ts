@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_TEMPLATES, renderTemplate, resolveTemplates } from "../messages.ts";
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+describe("renderTemplate", () => {
+  it("substitutes placeholders and keeps unknown ones", () => {
+    assert.equal(renderTemplate("{score} on {channel} {nope}", { score: "97.0%", channel: "signal" }), "97.0% on signal {nope}");
+  });
+
+  it("renders sections only for non-empty values", () => {
+    const template = "Blocked{#quarantineId} (ID {quarantineId}){/quarantineId}.";
+    assert.equal(renderTemplate(template, { quarantineId: "abc" }), "Blocked (ID abc).");
+    assert.equal(renderTemplate(template, { quarantineId: undefined }), "Blocked.");
+    assert.equal(renderTemplate(template, {}), "Blocked.");
+  });
+
+  it("reproduces the built-in English block reason", () => {
+    assert.equal(
+      renderTemplate(DEFAULT_TEMPLATES.block, { score: "91.0%", windowSize: 3, quarantineId: "q1" }),
+      "Channel guard blocked this message: prompt injection detected across the last 3 messages " +
+      "(confidence: 91.0%) (quarantine ID: q1)",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+describe("resolveTemplates", () => {
+  const cfg = {
+    locale: "en",
+    locales: {
+      sv: { block: "Meddelandet blockerades ({score}).", notify: "Ditt meddelande kunde inte behandlas." },
+      de: { block: "Nachricht blockiert ({score})." },
+    },
+    channels: {
+      signal: { locale: "sv" },
+      googlechat: { warn: "Careful: {score}" },
+    },
+  };
+
+  it("falls back to the built-in English templates", () => {
+    assert.deepEqual(resolveTemplates(undefined, "whatsapp"), DEFAULT_TEMPLATES);
+    assert.equal(resolveTemplates(cfg, "whatsapp").block, DEFAULT_TEMPLATES.block);
+  });
+
+  it("uses the channel's locale, keeping defaults for missing templates", () => {
+    const t = resolveTemplates(cfg, "signal");
+    assert.equal(t.block, "Meddelandet blockerades ({score}).");
+    assert.equal(t.warn, DEFAULT_TEMPLATES.warn);
+  });
+
+  it("prefers a configured event locale, matching by language", () => {
+    assert.equal(resolveTemplates(cfg, "signal", "de-AT").block, "Nachricht blockiert ({score}).");
+    // Unconfigured event locale: the channel's locale applies
+    assert.equal(resolveTemplates(cfg, "signal", "fr").block, "Meddelandet blockerades ({score}).");
+  });
+
+  it("applies per-channel template overrides last", () => {
+    const t = resolveTemplates(cfg, "googlechat", "sv");
+    assert.equal(t.warn, "Careful: {score}");
+    assert.equal(t.block, "Meddelandet blockerades ({score}).");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  DEFAULT_MODEL_ID,
+  combineScores,
+  positiveScore,
+  resolveModel,
+  resolveModels,
+} from "../models.ts";
+
+// ---------------------------------------------------------------------------
+// Model resolution
+// ---------------------------------------------------------------------------
+describe("resolveModel", () => {
+  it("defaults to ProtectAI DeBERTa with the INJECTION label", () => {
+    const model = resolveModel();
+    assert.equal(model.id, DEFAULT_MODEL_ID);
+    assert.equal(model.local, false);
+    assert.deepEqual(model.positiveLabels, ["INJECTION"]);
+    assert.equal(model.dtype, "fp32");
+    assert.equal(model.maxLength, 512);
+  });
+
+  it("treats hub IDs as remote and paths as local", () => {
+    assert.equal(resolveModel({ id: "meta-llama/Prompt-Guard-86M" }).local, false);
+    assert.equal(resolveModel({ id: "/models/guard" }).source, "/models/guard");
+    assert.equal(resolveModel({ id: "~/models/guard" }).source, path.join(os.homedir(), "models/guard"));
+    assert.equal(resolveModel({ id: "./guard" }, "/var/cache/cg").source, "/var/cache/cg/guard");
+  });
+
+  it("prefers the ensemble over the single model", () => {
+    const ids = resolveModels({ model: { id: "a/one" }, models: [{ id: "b/two" }, { id: "c/three" }] })
+      .map((m) => m.id);
+    assert.deepEqual(ids, ["b/two", "c/three"]);
+    assert.deepEqual(resolveModels({ model: { id: "a/one" }, models: [] }).map((m) => m.id), ["a/one"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+describe("positiveScore", () => {
+  it("takes the highest score among positive labels", () => {
+    const results = [
+      { label: "BENIGN", score: 0.2 },
+      { label: "INJECTION", score: 0.3 },
+      { label: "JAILBREAK", score: 0.5 },
+    ];
+    assert.equal(positiveScore(results, ["INJECTION", "JAILBREAK"]), 0.5);
+    assert.equal(positiveScore(results, ["LABEL_1"]), 0);
+  });
+});
+
+describe("combineScores", () => {
+  const models = [resolveModel({ weight: 1 }), resolveModel({ weight: 1 }), resolveModel({ weight: 2 })];
+
+  it("any takes the highest score", () => {
+    assert.equal(combineScores([0.1, 0.9, 0.2], models, "any"), 0.9);
+  });
+
+  it("majority takes the highest score most models reached", () => {
+    assert.equal(combineScores([0.1, 0.9, 0.2], models, "majority"), 0.2);
+    assert.equal(combineScores([0.8, 0.9, 0.2], models, "majority"), 0.8);
+  });
+
+  it("weighted takes the weighted mean", () => {
+    assert.ok(Math.abs(combineScores([0.2, 0.4, 0.9], models, "weighted") - 0.6) < 1e-9);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createNotifier, sendViaGateway, type Notification } from "../notify.ts";
+
+const originalFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function recorder() {
+  const sent: Notification[] = [];
+  return { sent, send: async (n: Notification) => void sent.push(n) };
+}
+
+const note = (sender: string): Notification => ({ channel: "whatsapp", sender, text: "Your message could not be processed." });
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+describe("createNotifier", () => {
+  it("notifies a sender once per cooldown", () => {
+    const { sent, send } = recorder();
+    const notifier = createNotifier({ cooldownMinutes: 60 }, send);
+    assert.equal(notifier.notify(note("+1")), true);
+    assert.equal(notifier.notify(note("+1")), false);
+    assert.equal(notifier.notify(note("+2")), true);
+    assert.deepEqual(sent.map((n) => n.sender), ["+1", "+2"]);
+  });
+
+  it("caps notifications per hour across senders", () => {
+    const { sent, send } = recorder();
+    const notifier = createNotifier({ maxPerHour: 2 }, send);
+    for (const sender of ["+1", "+2", "+3", "+4"]) notifier.notify(note(sender));
+    assert.equal(sent.length, 2);
+  });
+
+  it("notifies again after the cooldown", () => {
+    const { sent, send } = recorder();
+    const notifier = createNotifier({ cooldownMinutes: 0 }, send);
+    notifier.notify(note("+1"));
+    notifier.notify(note("+1"));
+    assert.equal(sent.length, 2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Gateway delivery
+// ---------------------------------------------------------------------------
+describe("sendViaGateway", () => {
+  it("invokes the message tool with the sender as target", async () => {
+    let request: { url: string; init: any } | undefined;
+    globalThis.fetch = (async (url: string, init: any) => {
+      request = { url, init };
+      return new Response("{}", { status: 200 });
+    }) as any;
+    await sendViaGateway(note("+46701234567"), { gatewayUrl: "http://gw:18789/", token: "secret" });
+    assert.equal(request!.url, "http://gw:18789/tools/invoke");
+    assert.equal(request!.init.headers.Authorization, "Bearer secret");
+    assert.deepEqual(JSON.parse(request!.init.body), {
+      tool: "message",
+      args: { action: "send", channel: "whatsapp", target: "+46701234567", message: "Your message could not be processed." },
+    });
+  });
+
+  it("reports gateway errors", async () => {
+    globalThis.fetch = (async () => new Response("no", { status: 403 })) as any;
+    await assert.rejects(sendViaGateway(note("+1")), /HTTP 403/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { classifyMessage, _resetClassifier } from "../index.ts";
+import { resolveModel } from "../models.ts";
+import { MANIFEST_FILE, hashFiles, readManifest, recordModel, verifyModel } from "../provision.ts";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "channel-guard-provision-"));
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+/** Fake cached hub model: <cacheDir>/<id>/{config.json,onnx/model.onnx} */
+function fakeCache(id = "acme/guard"): string {
+  const cacheDir = fs.mkdtempSync(path.join(tmp, "cache-"));
+  const dir = path.join(cacheDir, id);
+  fs.mkdirSync(path.join(dir, "onnx"), { recursive: true });
+  fs.writeFileSync(path.join(dir, "config.json"), '{"id2label":{"0":"SAFE","1":"INJECTION"}}');
+  fs.writeFileSync(path.join(dir, "onnx", "model.onnx"), "weights");
+  return cacheDir;
+}
+
+// ---------------------------------------------------------------------------
+// Manifest
+// ---------------------------------------------------------------------------
+describe("recordModel", () => {
+  it("hashes every model file into the manifest", async () => {
+    const cacheDir = fakeCache();
+    const model = resolveModel({ id: "acme/guard" }, cacheDir);
+    await recordModel(model, cacheDir);
+
+    const entry = readManifest(cacheDir)!.models["acme/guard"];
+    assert.deepEqual(Object.keys(entry.files), ["config.json", "onnx/model.onnx"]);
+    assert.deepEqual(entry.files, await hashFiles(path.join(cacheDir, "acme/guard")));
+    assert.deepEqual(entry.dtypes, ["fp32"]);
+  });
+
+  it("accumulates dtypes across provisioning runs", async () => {
+    const cacheDir = fakeCache();
+    await recordModel(resolveModel({ id: "acme/guard" }, cacheDir), cacheDir);
+    await recordModel(resolveModel({ id: "acme/guard", dtype: "q8" }, cacheDir), cacheDir);
+    assert.deepEqual(readManifest(cacheDir)!.models["acme/guard"].dtypes, ["fp32", "q8"]);
+  });
+
+  it("records local model directories in place", async () => {
+    const cacheDir = fakeCache();
+    const model = resolveModel({ id: "./acme/guard" }, cacheDir);
+    await recordModel(model, cacheDir);
+    assert.ok(readManifest(cacheDir)!.models["./acme/guard"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+describe("verifyModel", () => {
+  it("passes untouched files", async () => {
+    const cacheDir = fakeCache();
+    const model = resolveModel({ id: "acme/guard" }, cacheDir);
+    await recordModel(model, cacheDir);
+    assert.equal(await verifyModel(model, cacheDir), 2);
+  });
+
+  it("rejects modified and missing files", async () => {
+    const cacheDir = fakeCache();
+    const model = resolveModel({ id: "acme/guard" }, cacheDir);
+    await recordModel(model, cacheDir);
+    fs.writeFileSync(path.join(cacheDir, "acme/guard/onnx/model.onnx"), "backdoored");
+    fs.rmSync(path.join(cacheDir, "acme/guard/config.json"));
+    await assert.rejects(verifyModel(model, cacheDir), /config\.json missing, onnx\/model\.onnx modified/);
+  });
+
+  it("rejects a dtype that was not provisioned", async () => {
+    const cacheDir = fakeCache();
+    await recordModel(resolveModel({ id: "acme/guard" }, cacheDir), cacheDir);
+    await assert.rejects(verifyModel(resolveModel({ id: "acme/guard", dtype: "q8" }, cacheDir), cacheDir), /not q8/);
+  });
+
+  it("requires a manifest entry only when asked", async () => {
+    const cacheDir = fakeCache();
+    const model = resolveModel({ id: "acme/guard" }, cacheDir);
+    assert.equal(await verifyModel(model, cacheDir), 0);
+    await assert.rejects(verifyModel(model, cacheDir, true), new RegExp(MANIFEST_FILE));
+  });
+});
+
+describe("classifyMessage with a tampered model", () => {
+  after(() => _resetClassifier());
+
+  it("refuses to load the model", async () => {
+    _resetClassifier();
+    const cacheDir = fakeCache("tampered/guard");
+    const model = { id: "tampered/guard" };
+    await recordModel(resolveModel(model, cacheDir), cacheDir);
+    fs.writeFileSync(path.join(cacheDir, "tampered/guard/onnx/model.onnx"), "backdoored");
+
+    const cfg = { model, cacheDir, allowRemoteModels: false, inference: { workers: 0 } };
+    await assert.rejects(classifyMessage("hello", cfg), /failed integrity check/);
+    // Stays refused without re-hashing, even once the file is restored
+    fs.writeFileSync(path.join(cacheDir, "tampered/guard/onnx/model.onnx"), "weights");
+    await assert.rejects(classifyMessage("hello", cfg), /failed integrity check/);
+  });
+});
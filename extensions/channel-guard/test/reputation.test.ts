@@ -0,0 +1,132 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  emptyDb,
+  escalateThresholds,
+  getStanding,
+  loadReputation,
+  recordVerdict,
+  resetSender,
+  saveReputation,
+} from "../reputation.ts";
+
+const MINUTE = 60_000;
+const T0 = 1_700_000_000_000;
+const warn = { action: "warn" as const, score: 0.5, channel: "whatsapp" };
+const block = { action: "block" as const, score: 0.9, channel: "whatsapp" };
+
+// ---------------------------------------------------------------------------
+// Strikes, escalation, mute
+// ---------------------------------------------------------------------------
+describe("recordVerdict", () => {
+  it("starts unknown senders with a clean standing", () => {
+    const standing = getStanding(emptyDb(), "+461", {}, T0);
+    assert.deepEqual(standing, { strikes: 0, escalated: false, muted: false });
+  });
+
+  it("a single warn does not escalate", () => {
+    const db = emptyDb();
+    const standing = recordVerdict(db, "+461", warn, {}, T0);
+    assert.equal(standing.strikes, 1);
+    assert.equal(standing.escalated, false);
+  });
+
+  it("repeated warns escalate, then mute", () => {
+    const db = emptyDb();
+    let standing = recordVerdict(db, "+461", warn, {}, T0);
+    standing = recordVerdict(db, "+461", warn, {}, T0 + MINUTE);
+    assert.equal(standing.escalated, false);
+    standing = recordVerdict(db, "+461", warn, {}, T0 + 2 * MINUTE);
+    standing = recordVerdict(db, "+461", warn, {}, T0 + 3 * MINUTE);
+    assert.equal(standing.escalated, true);
+    assert.equal(standing.muted, false);
+
+    standing = recordVerdict(db, "+461", block, {}, T0 + 4 * MINUTE);
+    assert.equal(standing.muted, false);
+    standing = recordVerdict(db, "+461", block, {}, T0 + 5 * MINUTE);
+    assert.equal(standing.muted, true);
+    assert.equal(standing.mutedUntil, T0 + 5 * MINUTE + 60 * MINUTE);
+  });
+
+  it("strikes decay with the configured half-life", () => {
+    const db = emptyDb();
+    recordVerdict(db, "+461", block, { halfLifeMinutes: 10 }, T0);
+    const later = getStanding(db, "+461", { halfLifeMinutes: 10 }, T0 + 10 * MINUTE);
+    assert.ok(Math.abs(later.strikes - 1) < 1e-9, `expected 1 strike, got ${later.strikes}`);
+  });
+
+  it("mute expires after muteMinutes", () => {
+    const db = emptyDb();
+    recordVerdict(db, "+461", block, { muteAt: 2, muteMinutes: 5 }, T0);
+    assert.equal(getStanding(db, "+461", { muteAt: 2, muteMinutes: 5 }, T0 + 4 * MINUTE).muted, true);
+    assert.equal(getStanding(db, "+461", { muteAt: 2, muteMinutes: 5 }, T0 + 6 * MINUTE).muted, false);
+  });
+
+  it("keeps only the most recent verdicts", () => {
+    const db = emptyDb();
+    for (let i = 0; i < 30; i++) recordVerdict(db, "+461", warn, { muteAt: 1000 }, T0 + i);
+    assert.equal(db.senders["+461"].recent.length, 20);
+    assert.equal(db.senders["+461"].recent[19].at, T0 + 29);
+  });
+});
+
+describe("escalateThresholds", () => {
+  it("leaves thresholds alone for senders in good standing", () => {
+    const cfg = { warnThreshold: 0.4, blockThreshold: 0.8 };
+    assert.equal(escalateThresholds(cfg, { strikes: 1, escalated: false, muted: false }), cfg);
+  });
+
+  it("lowers thresholds for escalated senders, with a floor", () => {
+    const escalated = { strikes: 4, escalated: true, muted: false };
+    const cfg = escalateThresholds({ sensitivity: 0.5, warnThreshold: 0.2, blockThreshold: 0.8 }, escalated);
+    assert.ok(Math.abs(cfg.blockThreshold! - 0.65) < 1e-9);
+    assert.ok(Math.abs(cfg.sensitivity! - 0.35) < 1e-9);
+    assert.equal(cfg.warnThreshold, 0.1);
+  });
+});
+
+describe("resetSender", () => {
+  it("clears a muted sender", () => {
+    const db = emptyDb();
+    recordVerdict(db, "+461", block, { muteAt: 1 }, T0);
+    assert.equal(resetSender(db, "+461"), true);
+    assert.equal(getStanding(db, "+461", {}, T0).muted, false);
+    assert.equal(resetSender(db, "+461"), false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+describe("loadReputation / saveReputation", () => {
+  it("round-trips through disk and prunes decayed senders", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "channel-guard-rep-"));
+    const file = path.join(dir, "nested", "reputation.json");
+    try {
+      const db = emptyDb();
+      recordVerdict(db, "+461", block, {}, T0);
+      recordVerdict(db, "+462", warn, {}, T0 - 24 * 60 * MINUTE);
+      saveReputation(file, db, {}, T0);
+
+      const loaded = loadReputation(file);
+      assert.deepEqual(Object.keys(loaded.senders), ["+461"]);
+      assert.equal(loaded.senders["+461"].strikes, 2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns an empty store for missing or malformed files", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "channel-guard-rep-"));
+    try {
+      assert.deepEqual(loadReputation(path.join(dir, "missing.json")), emptyDb());
+      fs.writeFileSync(path.join(dir, "bad.json"), "{not json");
+      assert.deepEqual(loadReputation(path.join(dir, "bad.json")), emptyDb());
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * Content extraction for content-guard.
+ *
+ * A sessions_send message or tool result is not always a string: arrays of
+ * typed parts, nested message objects, attachments and HTML all reach the
+ * receiving model. Everything readable is collected into one text for the
+ * classifier:
+ *
+ *   text as sent — strings and {type:"text"} parts, first, so sanitize can
+ *     apply offsets into it to the payload (redactParams);
+ *   HTML rendered to text — what a human reader would not see (display:none,
+ *     visibility:hidden, aria-hidden, zero size or opacity, off-screen,
+ *     white-on-white, comments, scripts) marked as [hidden (reason): …],
+ *     with link targets, alt text, titles and meta content spelled out;
+ *   text in nested objects, text attachments, image captions.
+ *
+ * Parts with nothing to read — images, audio, binary attachments, file
+ * references — are reported as unscanned, so the caller can apply its policy.
+ */
+
+export interface UnscannedPart {
+  /** Where in the payload, e.g. "message[1]" or "attachments[0]" */
+  path: string;
+  /** Why: "image", "binary attachment", "nested too deeply", ... */
+  reason: string;
+}
+
+export interface Extracted {
+  /** Text for the classifier */
+  text: string;
+  /** Leading chars of text that are the payload's text as sent — what redactParams offsets address */
+  redactable: number;
+  /** Hidden HTML passages marked in text */
+  hidden: number;
+  unscanned: UnscannedPart[];
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+// Structural tags, comments and doctypes; a stray <b> or <br> in prose is not enough
+const HTML_HINT =
+  /<(?:!--|!doctype\b|(?:html|head|body|div|span|p|a|img|table|ul|ol|li|h[1-6]|script|style|section|article|nav|footer|header|main|iframe|noscript|template|meta|input)\b)/i;
+
+/** Whether text is HTML worth rendering rather than scanning as markup. */
+export function looksLikeHtml(text: string): boolean {
+  return HTML_HINT.test(text);
+}
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "br", "dd", "div", "dl", "dt", "fieldset", "figcaption", "figure",
+  "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main", "nav", "ol", "option", "p",
+  "pre", "section", "table", "td", "th", "title", "tr", "ul",
+]);
+const HIDING_CLASSES = /(?:^|\s)(sr-only|visually-hidden|d-none|hidden|invisible)(?:\s|$)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/** A CSS color as #rrggbb where it is one of the common spellings; otherwise as written. */
+function normalizeColor(value: string): string {
+  const v = value.toLowerCase().replace(/\s+|!important/g, "");
+  if (v === "white") return "#ffffff";
+  if (v === "black") return "#000000";
+  const short = v.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  const rgb = v.match(/^rgba?\((\d+),(\d+),(\d+)(?:,(?:1|1\.0+))?\)$/);
+  if (rgb) return `#${rgb.slice(1, 4).map((n) => Number(n).toString(16).padStart(2, "0")).join("")}`;
+  return v;
+}
+
+function styleValue(style: string, property: string): string | undefined {
+  const m = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "i"));
+  return m?.[1].trim();
+}
+
+/**
+ * Why an element's content is invisible to a human reader, or undefined.
+ * `background` is the nearest background color set by an ancestor.
+ */
+function hiddenReason(attrs: Record<string, string>, background: string | undefined): string | undefined {
+  if ("hidden" in attrs) return "hidden attribute";
+  if (attrs["aria-hidden"]?.toLowerCase() === "true") return "aria-hidden";
+  const hidingClass = attrs.class?.match(HIDING_CLASSES);
+  if (hidingClass) return `class ${hidingClass[1]}`;
+
+  const style = attrs.style ?? "";
+  if (!style) return undefined;
+  if (/^none\b/i.test(styleValue(style, "display") ?? "")) return "display:none";
+  if (/^(?:hidden|collapse)\b/i.test(styleValue(style, "visibility") ?? "")) return "visibility:hidden";
+  const opacity = styleValue(style, "opacity");
+  if (opacity !== undefined && parseFloat(opacity) === 0) return "opacity:0";
+  const fontSize = styleValue(style, "font-size")?.match(/^([\d.]+)\s*(px|pt)?/i);
+  if (fontSize && (parseFloat(fontSize[1]) === 0 || (fontSize[2] && parseFloat(fontSize[1]) <= 1))) {
+    return `font-size:${fontSize[0]}`;
+  }
+  for (const property of ["left", "top", "text-indent", "margin-left"]) {
+    const offset = styleValue(style, property)?.match(/^-(\d+)/);
+    if (offset && Number(offset[1]) >= 1000) return "off-screen";
+  }
+  const color = styleValue(style, "color");
+  if (color) {
+    const fg = normalizeColor(color);
+    if (fg === "transparent") return "transparent text";
+    const own = styleValue(style, "background-color") ?? styleValue(style, "background");
+    const bg = own ? normalizeColor(own) : background ?? "#ffffff";
+    if (fg === bg) return fg === "#ffffff" ? "white-on-white" : "same color as background";
+  }
+  return undefined;
+}
+
+interface OpenElement {
+  tag: string;
+  /** Set on the element that starts a hidden passage */
+  hiddenStart?: number;
+  background?: string;
+  href?: string;
+  hrefStart?: number;
+}
+
+// A comment, a script or style element with its content, any other tag, or a doctype/processing instruction
+const HTML_TOKEN =
+  /<!--([\s\S]*?)(?:-->|$)|<(script|style)\b([^>]*)>([\s\S]*?)(?:<\/\2\s*>|$)|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<[!?][^>]*>/gi;
+
+/**
+ * Render HTML to the text a reader sees, plus what they do not: hidden
+ * passages as [hidden (reason): …], link targets, alt text, titles and meta
+ * content. Returns the text and the number of hidden passages.
+ */
+export function htmlToText(html: string): { text: string; hidden: number } {
+  const out: string[] = [];
+  const stack: OpenElement[] = [];
+  let hidden = 0;
+  let pos = 0;
+
+  const inHidden = () => stack.some((e) => e.hiddenStart !== undefined);
+  const background = () => [...stack].reverse().find((e) => e.background)?.background;
+  const emit = (text: string) => {
+    if (text) out.push(text);
+  };
+  const hiddenPassage = (reason: string, text: string) => {
+    const content = text.replace(/\s+/g, " ").trim();
+    // Icons and separators: no letters, nothing to instruct with
+    if (!/\p{L}/u.test(content)) return;
+    if (inHidden()) {
+      emit(` ${content} `);
+      return;
+    }
+    hidden++;
+    emit(` [hidden (${reason}): ${content}] `);
+  };
+  const close = (element: OpenElement) => {
+    if (element.href !== undefined) {
+      const label = out.slice(element.hrefStart).join("");
+      if (!label.includes(element.href)) emit(` [link: ${element.href}]`);
+    }
+    if (element.hiddenStart !== undefined) {
+      if (/\p{L}/u.test(out.slice(element.hiddenStart + 1).join(""))) {
+        hidden++;
+        // Close the bracket on the passage's last line
+        while (!out[out.length - 1].trim()) out.pop();
+        out[out.length - 1] = out[out.length - 1].trimEnd();
+        emit("] ");
+      } else {
+        out.length = element.hiddenStart;
+      }
+    }
+    if (BLOCK_TAGS.has(element.tag)) emit("\n");
+  };
+
+  for (const m of html.matchAll(HTML_TOKEN)) {
+    emit(decodeEntities(html.slice(pos, m.index).replace(/\s+/g, " ")));
+    pos = m.index! + m[0].length;
+
+    if (m[1] !== undefined) {
+      hiddenPassage("comment", decodeEntities(m[1]));
+    } else if (m[2] !== undefined) {
+      // Scripts are not rendered but the model reads them; styles carry no text
+      if (m[2].toLowerCase() === "script") hiddenPassage("script", m[4]);
+    } else if (m[6] !== undefined) {
+      const tag = m[6].toLowerCase();
+      if (m[5]) {
+        const at = stack.map((e) => e.tag).lastIndexOf(tag);
+        if (at >= 0) for (const element of stack.splice(at).reverse()) close(element);
+        else if (BLOCK_TAGS.has(tag)) emit("\n");
+        continue;
+      }
+
+      const attrs = parseAttributes(m[7]);
+      const reason = inHidden() ? undefined : hiddenReason(attrs, background());
+      if (tag === "img" || tag === "area") {
+        const alt = attrs.alt || attrs.title;
+        if (alt && reason) hiddenPassage(reason, `image: ${alt}`);
+        else if (alt) emit(` [image: ${alt}] `);
+      } else if (tag === "meta") {
+        const name = attrs.name ?? attrs.property;
+        if (name && attrs.content) emit(`\n[meta ${name}: ${attrs.content}]\n`);
+      } else if (tag === "input" && attrs.type?.toLowerCase() === "hidden") {
+        if (attrs.value) hiddenPassage("hidden input", attrs.value);
+      } else if (attrs.title || attrs["aria-label"]) {
+        const label = attrs.title || attrs["aria-label"];
+        if (reason) hiddenPassage(reason, label);
+        else emit(` [${attrs.title ? "title" : "label"}: ${label}] `);
+      }
+      if (VOID_TAGS.has(tag) || m[7].trimEnd().endsWith("/")) {
+        if (BLOCK_TAGS.has(tag)) emit("\n");
+        continue;
+      }
+
+      const element: OpenElement = { tag };
+      if (BLOCK_TAGS.has(tag)) emit("\n");
+      if (reason || (tag === "template" && !inHidden())) {
+        element.hiddenStart = out.length;
+        emit(` [hidden (${reason ?? "template"}): `);
+      }
+      const bg = styleValue(attrs.style ?? "", "background-color") ?? styleValue(attrs.style ?? "", "background");
+      if (bg) element.background = normalizeColor(bg);
+      const href = attrs.href?.trim();
+      if (tag === "a" && href && !href.startsWith("#")) {
+        element.href = href;
+        element.hrefStart = out.length;
+      }
+      stack.push(element);
+    }
+  }
+  emit(decodeEntities(html.slice(pos).replace(/\s+/g, " ")));
+  for (const element of stack.reverse()) close(element);
+
+  const text = out
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/(\[hidden \([^)\n]*\):)\s+/g, "$1 ")
+    .trim();
+  return { text, hidden };
+}
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+// Nested objects deeper than this are reported instead of walked
+const MAX_DEPTH = 10;
+
+// Identifiers, encodings and flags — not text the model reads as content
+const METADATA_KEYS = new Set([
+  "type", "role", "id", "name", "mimeType", "mime_type", "mediaType", "media_type", "encoding", "detail",
+  "cache_control", "sessionKey", "timestamp", "size", "width", "height",
+]);
+// Encoded payloads: text when their MIME type says so, otherwise unscannable
+const DATA_KEYS = new Set(["data", "bytes", "base64", "b64_json"]);
+
+const IMAGE_TYPES = /^(?:image|image_url|input_image)$/;
+const MEDIA_TYPES = /^(?:audio|input_audio|video)$/;
+const FILE_TYPES = /^(?:file|document|attachment|input_file)$/;
+const TEXT_TYPES = /^(?:text|input_text|output_text|markdown)$/;
+const TEXT_MIME = /^(?:text\/|application\/(?:json|xml|xhtml\+xml|javascript|x-yaml|yaml|x-ndjson)\b)/i;
+
+interface Collected {
+  texts: string[];
+  hidden: number;
+  unscanned: UnscannedPart[];
+}
+
+function addText(text: string, into: Collected, label?: string): void {
+  let body = text;
+  if (looksLikeHtml(text)) {
+    const rendered = htmlToText(text);
+    body = rendered.text;
+    into.hidden += rendered.hidden;
+  }
+  if (!body.trim()) return;
+  into.texts.push(label ? `[${label}]\n${body}` : body);
+}
+
+function mimeOf(value: any): string {
+  return String(value.mimeType ?? value.mime_type ?? value.mediaType ?? value.media_type ?? value.source?.media_type ?? "");
+}
+
+/**
+ * The text of an encoded payload when its MIME type is text, else undefined.
+ * Base64 when `base64` says so or it is a base64 data: URL; plain otherwise.
+ */
+function decodeData(data: string, mime: string, base64: boolean): string | undefined {
+  const url = data.match(/^data:([^,;]*)(;base64)?,(.*)$/s);
+  if (!TEXT_MIME.test(url?.[1] || mime)) return undefined;
+  if (url?.[2]) return Buffer.from(url[3], "base64").toString("utf-8");
+  if (url) {
+    try {
+      return decodeURIComponent(url[3]);
+    } catch {
+      return url[3];
+    }
+  }
+  return base64 ? Buffer.from(data, "base64").toString("utf-8") : data;
+}
+
+/** Whether an object says its data is base64: {type|encoding: "base64"}, or a source that does. */
+function isBase64(value: any): boolean {
+  return value?.type === "base64" || value?.encoding === "base64" || value?.source?.type === "base64";
+}
+
+function collectFile(part: any, path: string, into: Collected): void {
+  const label = `attachment${typeof part.name === "string" ? ` ${part.name}` : part.filename ? ` ${part.filename}` : ""}`;
+  if (typeof part.text === "string") return addText(part.text, into, label);
+  if (typeof part.content === "string") return addText(part.content, into, label);
+  const data = part.data ?? part.source?.data ?? part.file_data;
+  if (typeof data !== "string") {
+    into.unscanned.push({ path, reason: "file reference (content not included)" });
+    return;
+  }
+  const decoded = decodeData(data, mimeOf(part), isBase64(part));
+  if (decoded === undefined) into.unscanned.push({ path, reason: `binary attachment${mimeOf(part) ? ` (${mimeOf(part)})` : ""}` });
+  else addText(decoded, into, label);
+}
+
+function collect(value: any, path: string, depth: number, into: Collected): void {
+  if (typeof value === "string") return addText(value, into);
+  if (value === null || typeof value !== "object") return;
+  if (depth > MAX_DEPTH) {
+    into.unscanned.push({ path, reason: "nested too deeply" });
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collect(item, `${path}[${i}]`, depth + 1, into));
+    return;
+  }
+
+  const type = typeof value.type === "string" ? value.type.toLowerCase() : "";
+  if (TEXT_TYPES.test(type) && typeof value.text === "string") return addText(value.text, into);
+  if (type === "html") return addText(String(value.html ?? value.text ?? ""), into);
+  if (IMAGE_TYPES.test(type) || MEDIA_TYPES.test(type)) {
+    const caption = [value.alt, value.caption, value.title, value.description, value.transcript]
+      .filter((v) => typeof v === "string" && v.trim())
+      .join(" — ");
+    if (caption) into.texts.push(`[${IMAGE_TYPES.test(type) ? "image" : type}: ${caption}]`);
+    into.unscanned.push({ path, reason: IMAGE_TYPES.test(type) ? "image" : type.replace("input_", "") });
+    return;
+  }
+  if (FILE_TYPES.test(type)) return collectFile(value, path, into);
+
+  for (const [key, item] of Object.entries(value)) {
+    if (METADATA_KEYS.has(key)) continue;
+    if (DATA_KEYS.has(key) && typeof item === "string") {
+      const decoded = decodeData(item, mimeOf(value), isBase64(value) || key === "base64" || key === "b64_json");
+      if (decoded === undefined) into.unscanned.push({ path: `${path}.${key}`, reason: "binary data" });
+      else addText(decoded, into);
+      continue;
+    }
+    collect(item, `${path}.${key}`, depth + 1, into);
+  }
+}
+
+/**
+ * Extract everything readable from `value` (labelled `root` in unscanned
+ * paths) after `extra` values. Text as sent — a string or the text parts of
+ * an array, when none is HTML — comes first and is redactable.
+ */
+function extract(value: any, root: string, extra: Record<string, unknown> = {}): Extracted {
+  const into: Collected = { texts: [], hidden: 0, unscanned: [] };
+  const verbatim = typeof value === "string"
+    ? [value]
+    : Array.isArray(value)
+      ? value.filter((p: any) => p?.type === "text" && typeof p.text === "string").map((p: any) => p.text as string)
+      : [];
+  const asSent = verbatim.some(looksLikeHtml) ? "" : verbatim.join("");
+
+  if (asSent) {
+    // The text parts are in asSent already; collect everything else
+    if (Array.isArray(value)) {
+      value.forEach((part, i) => {
+        if (!(part?.type === "text" && typeof part.text === "string")) collect(part, `${root}[${i}]`, 1, into);
+      });
+    }
+  } else {
+    collect(value, root, 0, into);
+  }
+  for (const [key, item] of Object.entries(extra)) {
+    if (item != null) collect(item, key, 0, into);
+  }
+
+  const rest = into.texts.join("\n\n");
+  return {
+    text: asSent && rest ? `${asSent}\n\n${rest}` : asSent || rest,
+    redactable: asSent.length,
+    hidden: into.hidden,
+    unscanned: into.unscanned,
+  };
+}
+
+/** Extract a sessions_send message: message, content or body (as extractContent reads it) and attachments. */
+export function extractMessage(params: any): Extracted {
+  if (!params) return { text: "", redactable: 0, hidden: 0, unscanned: [] };
+  const field = params.message != null ? "message" : params.content != null ? "content" : "body";
+  return extract(params[field], field, { attachments: params.attachments });
+}
+
+/** Extract a tool result as the model sees it: a string, or its content (details are not shown). */
+export function extractResult(result: any): Extracted {
+  if (!result || typeof result !== "object") return extract(typeof result === "string" ? result : "", "result");
+  return extract(result.content, "content");
+}
+
+/** "image at message[1], binary attachment at attachments[0]" — the first few. */
+export function describeUnscanned(parts: UnscannedPart[], max = 3): string {
+  const listed = parts.slice(0, max).map((p) => `${p.reason} at ${p.path}`).join(", ");
+  return parts.length > max ? `${listed} and ${parts.length - max} more` : listed;
+}
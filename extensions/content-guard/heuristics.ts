@@ -0,0 +1,263 @@
+/**
+ * Local heuristics for content-guard.
+ *
+ * Signature regexes for well-known injection phrasings, chat-template role
+ * tags, "system:" headers, tool-call mimicry and invisible-text tricks. Far
+ * weaker than an LLM — they only catch textbook attacks — but they run
+ * in-process with no network. Two uses:
+ *
+ *   prefilter — a first stage in front of the classifier: a high-confidence
+ *     signature hit is INJECTION and content with no imperative or
+ *     AI-directed language at all is SAFE, both without an LLM call.
+ *   degraded mode — stands in for the classifier while its circuit is open
+ *     (circuitBreaker.degradedMode "heuristic", see resilience.ts).
+ */
+
+import type { ClassifierBackend } from "./backends.ts";
+import type { AttackCategory, ClassifierVerdict } from "./verdict.ts";
+
+export interface PrefilterConfig {
+  /** Default: false */
+  enabled?: boolean;
+  /** Short-circuit to INJECTION on a signature hit of at least injectionConfidence. Default: true */
+  injection?: boolean;
+  /** Default: 0.9 */
+  injectionConfidence?: number;
+  /** Short-circuit to SAFE for plain content with no imperative or AI-directed language. Default: true */
+  safe?: boolean;
+  /** Longest chunk the SAFE short-circuit applies to. Default: 2000 */
+  maxSafeLength?: number;
+}
+
+export interface PrefilterStats {
+  /** Chunks checked */
+  checked: number;
+  /** Short-circuited to INJECTION */
+  injection: number;
+  /** Short-circuited to SAFE */
+  safe: number;
+  /** Passed on to the classifier */
+  classified: number;
+  /** Classifier calls avoided: injection + safe */
+  savedCalls: number;
+}
+
+interface Signature {
+  name: string;
+  category: AttackCategory;
+  /** How sure a hit alone makes us; hits at or above injectionConfidence skip the classifier */
+  confidence: number;
+  pattern: RegExp;
+}
+
+// Bounded gaps ({0,40}) keep each match within one clause and the regexes linear
+const SIGNATURES: Signature[] = [
+  {
+    name: "ignore-instructions",
+    category: "instruction-override",
+    confidence: 0.95,
+    pattern: /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|preceding|all|any|your|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|directives|guidelines|guardrails|programming)\b/i,
+  },
+  {
+    name: "new-instructions",
+    category: "instruction-override",
+    confidence: 0.9,
+    pattern: /\b(?:new|updated|real) (?:instructions|system prompt)\s*:/i,
+  },
+  {
+    name: "persona",
+    category: "role-override",
+    confidence: 0.9,
+    pattern: /\b(?:you are now|from now on,? you (?:are|will be)|pretend (?:that )?you are|act as) (?:an? )?(?:DAN|unrestricted|unfiltered|uncensored|jailbroken)\b/i,
+  },
+  {
+    name: "jailbreak-mode",
+    category: "role-override",
+    confidence: 0.9,
+    pattern: /\b(?:DAN mode|developer mode enabled|jailbreak mode)\b/i,
+  },
+  {
+    name: "reveal-prompt",
+    category: "exfiltration",
+    confidence: 0.9,
+    pattern: /\b(?:reveal|print|show|repeat|output|leak)\b[^.\n]{0,30}\b(?:your|the)\s+(?:system prompt|initial instructions|hidden instructions)\b/i,
+  },
+  {
+    // API docs say "send your API key in the header" too — not enough on its own
+    name: "send-secrets",
+    category: "exfiltration",
+    confidence: 0.7,
+    pattern: /\b(?:send|email|post|upload|forward|exfiltrate)\b[^.\n]{0,60}(?:~\/\.ssh|id_rsa|\.env\b|api[_ -]?keys?|passwords?|credentials|private keys?)/i,
+  },
+  {
+    // Chat-template tokens: ChatML, Llama, Gemma
+    name: "role-tag",
+    category: "role-override",
+    confidence: 0.9,
+    pattern: /<\|(?:im_start|im_end|system|assistant|user|endoftext|begin_of_text|start_header_id|eot_id)\|>|\[\/?INST\]|<<\/?SYS>>|<start_of_turn>/i,
+  },
+  {
+    // Logs and transcripts have these too
+    name: "system-header",
+    category: "role-override",
+    confidence: 0.7,
+    pattern: /^[ \t]*(?:#{1,3}[ \t]*)?\[?(?:system|developer)\]?[ \t]*:|^[ \t]*\[(?:system|developer)\]/im,
+  },
+  {
+    name: "tool-call-markup",
+    category: "tool-hijack",
+    confidence: 0.9,
+    pattern: /<(?:function_calls|tool_call)\b|<invoke name=/i,
+  },
+  {
+    name: "tool-call-json",
+    category: "tool-hijack",
+    confidence: 0.75,
+    pattern: /"(?:tool_calls|function_call)"\s*:|\{\s*"(?:name|tool)"\s*:\s*"(?:exec|bash|shell|sessions_send|web_fetch|write|edit|apply_patch|message)"\s*,\s*"(?:arguments|parameters|params|input)"\s*:/i,
+  },
+];
+
+export interface SignatureHit {
+  name: string;
+  category: AttackCategory;
+  confidence: number;
+  text: string;
+}
+
+// Emoji subdivision flags (🏴 + tag letters + cancel tag) are the one legitimate use of tag characters
+const FLAG_SEQUENCE = /\u{1F3F4}[\u{E0020}-\u{E007E}]+\u{E007F}/gu;
+// Unicode tag characters mirror ASCII and render invisibly ("ASCII smuggling")
+const TAG_CHARS = /[\u{E0000}-\u{E007F}]+/gu;
+// Zero-width characters other than the joiner (emoji sequences use single ZWJs)
+const ZERO_WIDTH = /[\u200B\u200C\u2060\uFEFF]/g;
+// Bidi embeddings, overrides and isolates ("Trojan Source")
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069]/g;
+
+/** Invisible-text tricks, as pseudo-signature hits with the decoded or counted text as evidence. */
+function invisibleHits(content: string): SignatureHit[] {
+  const hits: SignatureHit[] = [];
+  const tagged = content.replace(FLAG_SEQUENCE, "").match(TAG_CHARS);
+  if (tagged) {
+    const decoded = tagged
+      .join(" ")
+      .replace(/[\u{E0000}-\u{E007F}]/gu, (ch) => String.fromCharCode(ch.codePointAt(0)! - 0xe0000));
+    hits.push({ name: "tag-characters", category: "other", confidence: 0.95, text: `hidden text: ${decoded.trim()}` });
+  }
+  const zeroWidth = content.match(ZERO_WIDTH)?.length ?? 0;
+  if (zeroWidth >= 5) {
+    hits.push({ name: "zero-width", category: "other", confidence: 0.6, text: `${zeroWidth} zero-width characters` });
+  }
+  const bidi = content.match(BIDI_CONTROLS)?.length ?? 0;
+  if (bidi > 0) {
+    hits.push({ name: "bidi-controls", category: "other", confidence: 0.6, text: `${bidi} bidi control characters` });
+  }
+  return hits;
+}
+
+/** Every signature that matches content, most confident first. */
+export function signatureHits(content: string): SignatureHit[] {
+  const hits: SignatureHit[] = SIGNATURES.flatMap(({ name, category, confidence, pattern }) => {
+    const match = content.match(pattern);
+    return match ? [{ name, category, confidence, text: match[0].trim() }] : [];
+  });
+  return [...hits, ...invisibleHits(content)].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Classify content by signature. INJECTION when any signature matches: as
+ * confident as the best hit, a little more for each further one. Otherwise
+ * SAFE at low confidence — absence of a known phrasing says little.
+ */
+export function heuristicVerdict(content: string): ClassifierVerdict {
+  const hits = signatureHits(content);
+  if (hits.length === 0) return { label: "SAFE", confidence: 0.5, structured: false, source: "heuristics" };
+  return {
+    label: "INJECTION",
+    confidence: Math.min(0.99, Math.round((hits[0].confidence + 0.05 * (hits.length - 1)) * 100) / 100),
+    category: hits[0].category,
+    evidence: hits.slice(0, 3).map((h) => h.text),
+    rationale: `matched ${hits.map((h) => h.name).join(", ")}`,
+    structured: false,
+    source: "heuristics",
+  };
+}
+
+// Anything that could address or steer an agent. Deliberately broad: a hit
+// only means the classifier gets to decide
+const CUE_WORDS =
+  /\b(?:ignore|disregard|forget|override|bypass|instruct\w*|prompt\w*|system|assistant|AI|LLM|GPT|chatbot|model|agent|bot|you|your|yours|pretend|act|role-?play|respond|reply|answer|say|tell|must|execute|run|send|e-?mail|upload|forward|reveal|print|repeat|output|tool|function|command|password\w*|api|key|credential\w*|secret\w*|token\w*|now|important|immediately|urgent)\b/i;
+// Digits inside words (1gn0re), long base64-like runs, markup and code — ways around the cue words
+const OBFUSCATION = /[a-z][013457@$][a-z]|[A-Za-z0-9+/]{40,}={0,2}|[<>{}[\]`|\\]/i;
+
+/**
+ * Whether content is plainly benign: short, Latin-script prose with no cue
+ * word, no obfuscation and no signature. Anything else goes to the classifier.
+ */
+export function isPlainlyBenign(content: string, maxLength = 2000): boolean {
+  if (content.length > maxLength) return false;
+  // The cue words are English; other scripts are for the classifier to judge
+  if (/[^\x09\x0A\x0D\x20-\x7E\u00A0-\u024F\u2013\u2014\u2018-\u201D\u2026]/.test(content)) return false;
+  if (CUE_WORDS.test(content) || OBFUSCATION.test(content)) return false;
+  return signatureHits(content).length === 0;
+}
+
+export interface Prefilter {
+  /** Verdict without a classifier call, or undefined when the classifier must decide. */
+  check(content: string): ClassifierVerdict | undefined;
+  /** Classifier that consults check() first. */
+  wrap(backend: ClassifierBackend): ClassifierBackend;
+  stats(): PrefilterStats;
+}
+
+/** Prefilter with its own counters; logs them every `logEvery` checks (0: never). */
+export function createPrefilter(cfg: PrefilterConfig = {}, logEvery = 0): Prefilter {
+  const injectionConfidence = cfg.injectionConfidence ?? 0.9;
+  const counters = { checked: 0, injection: 0, safe: 0, classified: 0 };
+
+  const stats = (): PrefilterStats => ({ ...counters, savedCalls: counters.injection + counters.safe });
+
+  function decide(content: string): ClassifierVerdict | undefined {
+    if (cfg.injection ?? true) {
+      const verdict = heuristicVerdict(content);
+      if (verdict.label === "INJECTION" && verdict.confidence >= injectionConfidence) {
+        counters.injection++;
+        return { ...verdict, source: "prefilter" };
+      }
+    }
+    if ((cfg.safe ?? true) && isPlainlyBenign(content, cfg.maxSafeLength)) {
+      counters.safe++;
+      return {
+        label: "SAFE",
+        confidence: 0.9,
+        rationale: "no imperative or AI-directed language",
+        structured: false,
+        source: "prefilter",
+      };
+    }
+    counters.classified++;
+    return undefined;
+  }
+
+  function check(content: string): ClassifierVerdict | undefined {
+    counters.checked++;
+    const verdict = decide(content);
+    if (logEvery > 0 && counters.checked % logEvery === 0) {
+      const { checked, injection, safe, classified, savedCalls } = stats();
+      console.log(
+        `[content-guard] Prefilter: ${checked} checked, ${injection} INJECTION, ${safe} SAFE, ` +
+          `${classified} to classifier — ${savedCalls} LLM calls saved`,
+      );
+    }
+    return verdict;
+  }
+
+  return {
+    check,
+    wrap: (backend) => ({
+      name: backend.name,
+      model: backend.model,
+      classify: async (content) => check(content) ?? backend.classify(content),
+    }),
+    stats,
+  };
+}
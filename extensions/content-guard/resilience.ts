@@ -0,0 +1,196 @@
+/**
+ * Retries, fallback models and a circuit breaker for content-guard's classifier.
+ *
+ * A transient provider error (network, timeout, HTTP 408/429/5xx) is retried
+ * with jittered exponential backoff; when a model keeps failing, the next
+ * model in fallbackModels is tried. Classifications that fail on every model
+ * count against a circuit breaker: after failureThreshold in a row it opens
+ * and, for cooldownMs, calls skip the provider and go to the degraded mode —
+ * block (fail closed) or the local heuristic classifier (heuristics.ts).
+ * Then one trial call is let through; its outcome closes or reopens the
+ * circuit. Every transition is logged.
+ */
+
+import { createBackend, isRetryable, type ClassifierBackend } from "./backends.ts";
+import { heuristicVerdict } from "./heuristics.ts";
+import type { PluginConfig } from "./index.ts";
+import type { ClassifierVerdict } from "./verdict.ts";
+
+export interface RetryConfig {
+  /** Retries after the first attempt, per model. Default: 2 */
+  attempts?: number;
+  /** Backoff before the first retry; doubles per retry. Default: 500 */
+  baseDelayMs?: number;
+  /** Cap on one backoff delay. Default: 5000 */
+  maxDelayMs?: number;
+}
+
+export type DegradedMode = "block" | "heuristic";
+
+export interface CircuitBreakerConfig {
+  /** Failed classifications in a row that open the circuit. 0 disables it. Default: 5 */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call. Default: 60000 */
+  cooldownMs?: number;
+  /** While open: block everything, or classify with the local heuristics. Default: "block" */
+  degradedMode?: DegradedMode;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  /** Whether a call may go to the provider; after the cooldown, lets one trial call through. */
+  allow(): boolean;
+  success(): void;
+  failure(): void;
+}
+
+/**
+ * Backoff before retry `attempt` (0-based): half of the capped exponential
+ * delay, plus up to as much again at random, so clients that failed together
+ * do not retry together.
+ */
+export function backoffDelay(attempt: number, cfg: RetryConfig = {}, random = Math.random): number {
+  const cap = Math.min(cfg.maxDelayMs ?? 5000, (cfg.baseDelayMs ?? 500) * 2 ** attempt);
+  return Math.round(cap / 2 + random() * (cap / 2));
+}
+
+/** Circuit breaker for one classifier; `label` names it in logs. */
+export function createCircuitBreaker(
+  label: string,
+  cfg: CircuitBreakerConfig = {},
+  now: () => number = Date.now,
+): CircuitBreaker {
+  const threshold = cfg.failureThreshold ?? 5;
+  const cooldownMs = cfg.cooldownMs ?? 60000;
+  const mode = cfg.degradedMode ?? "block";
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  function open(why: string) {
+    state = "open";
+    openedAt = now();
+    trialInFlight = false;
+    console.warn(
+      `[content-guard] Circuit open for ${label}: ${why} — degraded mode ${mode} for ${Math.round(cooldownMs / 1000)}s`,
+    );
+  }
+
+  return {
+    state: () => state,
+
+    allow() {
+      if (state === "closed") return true;
+      if (state === "open" && now() - openedAt >= cooldownMs) {
+        state = "half-open";
+        console.warn(`[content-guard] Circuit half-open for ${label} — sending a trial request`);
+      }
+      if (state === "half-open" && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    success() {
+      failures = 0;
+      if (state !== "closed") {
+        state = "closed";
+        trialInFlight = false;
+        console.warn(`[content-guard] Circuit closed for ${label} — classifier recovered`);
+      }
+    },
+
+    failure() {
+      if (threshold <= 0) return;
+      if (state === "half-open") {
+        open("trial request failed");
+        return;
+      }
+      if (state === "closed" && ++failures >= threshold) open(`${failures} failed classifications in a row`);
+    },
+  };
+}
+
+/** "<backend>/<model>" for logs. */
+function describeBackend(backend: ClassifierBackend): string {
+  return `${backend.name}/${backend.model || "<unset>"}`;
+}
+
+/**
+ * Chain classifiers: each is tried in order, transient errors retried with
+ * backoff. When all fail, the last error is thrown. With a breaker, an open
+ * circuit short-circuits to its degraded mode.
+ */
+export function withResilience(
+  backends: ClassifierBackend[],
+  opts: {
+    retry?: RetryConfig;
+    breaker?: CircuitBreaker;
+    degradedMode?: DegradedMode;
+    sleep?: (ms: number) => Promise<void>;
+  } = {},
+): ClassifierBackend {
+  const [primary] = backends;
+  const retries = Math.max(0, opts.retry?.attempts ?? 2);
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  async function degraded(content: string): Promise<ClassifierVerdict> {
+    if (opts.degradedMode === "heuristic") return heuristicVerdict(content);
+    throw new Error(`Content guard: ${describeBackend(primary)} unavailable (circuit open)`);
+  }
+
+  return {
+    name: primary.name,
+    model: primary.model,
+    async classify(content) {
+      if (opts.breaker && !opts.breaker.allow()) return degraded(content);
+
+      let lastError: unknown;
+      for (const [i, backend] of backends.entries()) {
+        if (i > 0) {
+          console.warn(`[content-guard] ${describeBackend(backends[i - 1])} failed — falling back to ${describeBackend(backend)}`);
+        }
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const verdict = await backend.classify(content);
+            opts.breaker?.success();
+            return verdict;
+          } catch (err: any) {
+            lastError = err;
+            if (!isRetryable(err) || attempt >= retries) break;
+            const delay = backoffDelay(attempt, opts.retry);
+            console.warn(
+              `[content-guard] ${describeBackend(backend)}: ${err.message} — retry ${attempt + 1}/${retries} in ${delay}ms`,
+            );
+            await sleep(delay);
+          }
+        }
+      }
+      opts.breaker?.failure();
+      throw lastError;
+    },
+  };
+}
+
+/**
+ * The classifier for cfg: its backend, then the same backend with each of
+ * cfg.fallbackModels, with retries and a circuit breaker of its own.
+ */
+export function createClassifier(cfg: PluginConfig): ClassifierBackend {
+  const backends = [
+    createBackend(cfg),
+    ...(cfg.fallbackModels ?? []).map((model) => createBackend({ ...cfg, model })),
+  ];
+  const breaker = cfg.circuitBreaker?.failureThreshold === 0
+    ? undefined
+    : createCircuitBreaker(describeBackend(backends[0]), cfg.circuitBreaker);
+  return withResilience(backends, {
+    retry: cfg.retry,
+    breaker,
+    degradedMode: cfg.circuitBreaker?.degradedMode ?? "block",
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * Sanitize-and-forward for content-guard.
+ *
+ * Instead of blocking a whole sessions_send because one paragraph of a long
+ * search result is an injection, the flagged chunks are split into segments
+ * (paragraphs, else sentences) that are classified one by one. Flagged
+ * segments are replaced with a visible marker and the rest is forwarded. The
+ * original is kept as one JSON file per item under <stateDir>/sanitized, so an
+ * operator can audit what was removed.
+ */
+
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export interface SanitizeConfig {
+  /** Replaces each removed span. Default: "[removed: suspected injection]" */
+  marker?: string;
+  /** Most segments classified per flagged chunk; more are merged. Default: 20 */
+  maxSegments?: number;
+  /** Block instead when more than this share of the content would be removed. Default: 0.5 */
+  maxRemovedRatio?: number;
+  /** Delete audit items older than this many days. 0 keeps them forever. Default: 30 */
+  retentionDays?: number;
+}
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface SanitizedItem {
+  id: string;
+  createdAt: number;
+  /** "<source> → <target>" of the send */
+  route: string;
+  boundary: string;
+  /** Removed spans, as offsets into `original` */
+  spans: (Span & { text: string })[];
+  original: string;
+  forwarded: string;
+}
+
+export const SANITIZED_DIR = "sanitized";
+export const DEFAULT_MARKER = "[removed: suspected injection]";
+
+const ID_PATTERN = /^[0-9]{8}T[0-9]{6}-[0-9a-f]{6}$/;
+const DAY = 24 * 60 * 60 * 1000;
+const PARAGRAPH_BREAK = /\n[ \t]*\n/g;
+const SENTENCE_BREAK = /(?<=[.!?])\s+/g;
+
+/** Spans of `text` between matches of `separator`, trimmed; empty pieces dropped. */
+function splitOn(text: string, separator: RegExp, offset: number): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+  const push = (end: number) => {
+    const piece = text.slice(start, end);
+    const lead = piece.length - piece.trimStart().length;
+    const trimmed = piece.trim();
+    if (trimmed) spans.push({ start: offset + start + lead, end: offset + start + lead + trimmed.length });
+  };
+  for (const match of text.matchAll(new RegExp(separator.source, "g"))) {
+    push(match.index!);
+    start = match.index! + match[0].length;
+  }
+  push(text.length);
+  return spans;
+}
+
+/**
+ * Segments of text[start, end): paragraphs, or sentences when it is a single
+ * paragraph. Adjacent segments are merged down to at most `maxSegments`.
+ */
+export function segmentSpans(text: string, start: number, end: number, maxSegments = 20): Span[] {
+  const slice = text.slice(start, end);
+  let spans = splitOn(slice, PARAGRAPH_BREAK, start);
+  if (spans.length < 2) spans = splitOn(slice, SENTENCE_BREAK, start);
+  if (spans.length <= maxSegments) return spans;
+
+  const perGroup = Math.ceil(spans.length / maxSegments);
+  const merged: Span[] = [];
+  for (let i = 0; i < spans.length; i += perGroup) {
+    merged.push({ start: spans[i].start, end: spans[Math.min(i + perGroup, spans.length) - 1].end });
+  }
+  return merged;
+}
+
+/** Sort and merge overlapping or touching spans. */
+export function mergeSpans(spans: Span[]): Span[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: Span[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+    else merged.push({ ...span });
+  }
+  return merged;
+}
+
+/**
+ * Offending spans of content: the segments of each flagged chunk
+ * (ranges[i] where verdicts[i] is INJECTION) that classify as INJECTION on
+ * their own, merged. Empty when no single segment does — the payload only
+ * works as a whole and cannot be cut out.
+ */
+export async function locateInjection(
+  content: string,
+  ranges: Span[],
+  verdicts: ("SAFE" | "INJECTION")[],
+  classify: (text: string) => Promise<"SAFE" | "INJECTION">,
+  maxSegments = 20,
+): Promise<Span[]> {
+  const segments = ranges
+    .filter((_, i) => verdicts[i] === "INJECTION")
+    .flatMap((range) => segmentSpans(content, range.start, range.end, maxSegments));
+  const results = await Promise.all(segments.map((s) => classify(content.slice(s.start, s.end))));
+  return mergeSpans(segments.filter((_, i) => results[i] === "INJECTION"));
+}
+
+/** Replace each span of text with the marker. Spans must be merged (sorted, disjoint). */
+export function redact(text: string, spans: Span[], marker = DEFAULT_MARKER): string {
+  let out = "";
+  let pos = 0;
+  for (const span of spans) {
+    out += text.slice(pos, span.start) + marker;
+    pos = span.end;
+  }
+  return out + text.slice(pos);
+}
+
+/**
+ * Apply spans (offsets into extractContent's text) to sessions_send params,
+ * in whichever field it read. For {type:"text"} arrays, offsets run across
+ * the text parts in order; a span crossing parts leaves the marker in the first.
+ */
+export function redactParams(params: any, spans: Span[], marker = DEFAULT_MARKER): any {
+  const field = params.message != null ? "message" : params.content != null ? "content" : "body";
+  const raw = params[field];
+  if (!Array.isArray(raw)) return { ...params, [field]: redact(String(raw), spans, marker) };
+
+  let offset = 0;
+  const parts = raw.map((part: any) => {
+    if (part?.type !== "text" || typeof part.text !== "string") return part;
+    const start = offset;
+    const end = offset + part.text.length;
+    offset = end;
+    const local = spans
+      .filter((s) => s.start < end && s.end > start)
+      .map((s) => ({ start: Math.max(s.start, start) - start, end: Math.min(s.end, end) - start }));
+    if (local.length === 0) return part;
+    // The marker goes where the span starts; continuations in later parts are just removed
+    let text = "";
+    let pos = 0;
+    for (const [i, s] of local.entries()) {
+      const continues = i === 0 && spans.some((span) => span.start < start && span.end > start);
+      text += part.text.slice(pos, s.start) + (continues ? "" : marker);
+      pos = s.end;
+    }
+    return { ...part, text: text + part.text.slice(pos) };
+  });
+  return { ...params, [field]: parts };
+}
+
+// ---------------------------------------------------------------------------
+// Audit store
+// ---------------------------------------------------------------------------
+
+function newId(now: number): string {
+  const stamp = new Date(now).toISOString().replace(/[-:]/g, "").slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+function itemPath(dir: string, id: string): string {
+  if (!ID_PATTERN.test(id)) throw new Error(`Invalid audit ID: ${id}`);
+  return path.join(dir, `${id}.json`);
+}
+
+/** Store the original of a sanitized send and return the new item. */
+export function storeSanitized(
+  dir: string,
+  entry: Omit<SanitizedItem, "id" | "createdAt">,
+  now = Date.now(),
+): SanitizedItem {
+  const item: SanitizedItem = { id: newId(now), createdAt: now, ...entry };
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = itemPath(dir, item.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(item, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+  return item;
+}
+
+/** Read one item, or null if it does not exist. */
+export function getSanitized(dir: string, id: string): SanitizedItem | null {
+  try {
+    return JSON.parse(fs.readFileSync(itemPath(dir, id), "utf-8"));
+  } catch (err: any) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Delete items created more than `olderThanDays` ago. Returns the number removed. */
+export function purgeSanitized(dir: string, olderThanDays: number, now = Date.now()): number {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return 0;
+  }
+  const cutoff = now - olderThanDays * DAY;
+  let removed = 0;
+  for (const file of files) {
+    if (!file.endsWith(".json") || !ID_PATTERN.test(file.slice(0, -5))) continue;
+    try {
+      const item: SanitizedItem = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+      if (item.createdAt >= cutoff) continue;
+      fs.unlinkSync(path.join(dir, file));
+      removed++;
+    } catch {
+      console.warn(`[content-guard] Skipping unreadable audit item ${file}`);
+    }
+  }
+  return removed;
+}
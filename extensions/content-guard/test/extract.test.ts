@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeUnscanned, extractMessage, extractResult, htmlToText, looksLikeHtml } from "../extract.ts";
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+describe("looksLikeHtml", () => {
+  it("takes structural markup, not inline tags in prose", () => {
+    assert.equal(looksLikeHtml("<div>x</div>"), true);
+    assert.equal(looksLikeHtml("<!-- note -->"), true);
+    assert.equal(looksLikeHtml("Use <b>bold</b> and a < b."), false);
+  });
+});
+
+describe("htmlToText", () => {
+  it("renders visible text with entities decoded and blocks on their own lines", () => {
+    assert.deepEqual(htmlToText("<h1>Pasta</h1><p>Boil water &amp; salt.</p><style>p { color: red }</style>"), {
+      text: "Pasta\n\nBoil water & salt.",
+      hidden: 0,
+    });
+  });
+
+  it("marks hidden elements with the reason", () => {
+    const cases: [string, string][] = [
+      ['<div style="display: none">x</div>', "display:none"],
+      ['<span style="visibility:hidden">x</span>', "visibility:hidden"],
+      ['<p aria-hidden="true">x</p>', "aria-hidden"],
+      ["<p hidden>x</p>", "hidden attribute"],
+      ['<span class="btn sr-only">x</span>', "class sr-only"],
+      ['<span style="opacity:0">x</span>', "opacity:0"],
+      ['<span style="font-size:0">x</span>', "font-size:0"],
+      ['<div style="position:absolute;left:-9999px">x</div>', "off-screen"],
+      ['<p style="color:#FFF">x</p>', "white-on-white"],
+      ['<div style="background:#222"><p style="color:rgb(34, 34, 34)">x</p></div>', "same color as background"],
+      ["<!-- x -->", "comment"],
+      ["<script>x</script>", "script"],
+    ];
+    for (const [html, reason] of cases) {
+      const { text, hidden } = htmlToText(`<p>Visible.</p>${html}`);
+      assert.ok(text.startsWith("Visible."), html);
+      assert.ok(text.endsWith(`[hidden (${reason}): x]`), `${html} → ${text}`);
+      assert.equal(hidden, 1, html);
+    }
+  });
+
+  it("does not mark readable colors, or hidden elements without letters", () => {
+    assert.equal(htmlToText('<div style="background:black"><p style="color:white">x</p></div>').hidden, 0);
+    assert.equal(htmlToText('<span aria-hidden="true">★</span><span aria-hidden="true"><svg></svg></span>text').text, "text");
+  });
+
+  it("marks a hidden subtree once", () => {
+    const { text, hidden } = htmlToText('<div style="display:none"><p>a</p><p style="opacity:0">b</p></div>');
+    assert.equal(hidden, 1);
+    assert.equal(text, "[hidden (display:none): a\n\nb]");
+  });
+
+  it("spells out link targets, alt text, titles and meta content", () => {
+    const { text } = htmlToText(
+      '<meta name="description" content="Best pasta"><a href="https://evil.example/x">click</a> ' +
+        '<a href="https://a.example">https://a.example</a> <img src="c.png" alt="chart"> <abbr title="ask me">?</abbr>',
+    );
+    assert.equal(
+      text,
+      "[meta description: Best pasta]\nclick [link: https://evil.example/x] https://a.example [image: chart] [title: ask me] ?",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+describe("extractMessage", () => {
+  it("keeps text as sent first and redactable", () => {
+    assert.deepEqual(extractMessage({ message: "hello" }), { text: "hello", redactable: 5, hidden: 0, unscanned: [] });
+    const parts = extractMessage({
+      content: [{ type: "text", text: "a" }, { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png", alt: "cat" }, { type: "text", text: "b" }],
+    });
+    assert.deepEqual(parts, { text: "ab\n\n[image: cat]", redactable: 2, hidden: 0, unscanned: [{ path: "content[1]", reason: "image" }] });
+  });
+
+  it("collects nested message structures", () => {
+    const extracted = extractMessage({
+      message: { id: "m1", role: "assistant", text: "outer", parts: [{ type: "text", text: "inner" }, { quote: { text: "deep" } }] },
+    });
+    assert.equal(extracted.text, "outer\n\ninner\n\ndeep");
+    assert.equal(extracted.redactable, 0);
+  });
+
+  it("renders HTML messages and counts hidden passages", () => {
+    const extracted = extractMessage({ message: '<p>Hi</p><p style="display:none">psst</p>' });
+    assert.equal(extracted.text, "Hi\n\n[hidden (display:none): psst]");
+    assert.equal(extracted.redactable, 0);
+    assert.equal(extracted.hidden, 1);
+  });
+
+  it("reads text attachments and reports binary ones", () => {
+    const extracted = extractMessage({
+      message: "See attached.",
+      attachments: [
+        { type: "file", name: "a.txt", mimeType: "text/plain", encoding: "base64", data: Buffer.from("notes").toString("base64") },
+        { type: "document", source: { type: "text", media_type: "text/plain", data: "report" } },
+        { type: "file", name: "b.pdf", mimeType: "application/pdf", data: "JVBERi0=" },
+        { type: "file", file_id: "file-123" },
+      ],
+    });
+    assert.equal(extracted.text, "See attached.\n\n[attachment a.txt]\nnotes\n\n[attachment]\nreport");
+    assert.deepEqual(extracted.unscanned, [
+      { path: "attachments[2]", reason: "binary attachment (application/pdf)" },
+      { path: "attachments[3]", reason: "file reference (content not included)" },
+    ]);
+  });
+
+  it("reports structures nested too deeply", () => {
+    let message: any = { text: "bottom" };
+    for (let i = 0; i < 12; i++) message = { next: message };
+    assert.equal(extractMessage({ message }).unscanned[0].reason, "nested too deeply");
+  });
+});
+
+describe("extractResult", () => {
+  it("extracts a string or the result's content, not its details", () => {
+    assert.equal(extractResult("plain").text, "plain");
+    const extracted = extractResult({
+      content: [{ type: "text", text: "page" }, { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" }],
+      details: { text: "not shown to the model" },
+    });
+    assert.equal(extracted.text, "page");
+    assert.deepEqual(extracted.unscanned, [{ path: "content[1]", reason: "image" }]);
+  });
+});
+
+describe("describeUnscanned", () => {
+  it("lists the first few parts", () => {
+    const parts = ["a", "b", "c", "d", "e"].map((p) => ({ path: p, reason: "image" }));
+    assert.equal(describeUnscanned(parts), "image at a, image at b, image at c and 2 more");
+  });
+});
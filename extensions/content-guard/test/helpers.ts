@@ -0,0 +1,12 @@
+/** Run fn with console.warn captured; returns the warnings. */
+export async function captureWarnings(fn: () => unknown): Promise<string[]> {
+  const logs: string[] = [];
+  const original = console.warn;
+  console.warn = (msg: string) => logs.push(msg);
+  try {
+    await fn();
+  } finally {
+    console.warn = original;
+  }
+  return logs;
+}
@@ -0,0 +1,127 @@
+/**
+ * Classifier verdicts for content-guard.
+ *
+ * LLM backends are asked for a JSON verdict — label, confidence, attack
+ * category, quoted evidence and a one-line rationale — which is validated
+ * here. Replies that are not a valid JSON verdict fall back to the one-word
+ * protocol (first word SAFE or INJECTION); anything else is INJECTION.
+ */
+
+export type Label = "SAFE" | "INJECTION";
+
+export type AttackCategory =
+  | "none"
+  | "role-override"
+  | "instruction-override"
+  | "exfiltration"
+  | "tool-hijack"
+  | "other";
+
+export const ATTACK_CATEGORIES: AttackCategory[] = [
+  "none",
+  "role-override",
+  "instruction-override",
+  "exfiltration",
+  "tool-hijack",
+  "other",
+];
+
+/** Reply format requested from LLM backends. */
+export type VerdictFormat = "json" | "word";
+
+export interface ClassifierVerdict {
+  label: Label;
+  /** Confidence in the label, 0–1. One-word replies count as 1 */
+  confidence: number;
+  category?: AttackCategory;
+  /** Verbatim quotes of the injected text */
+  evidence?: string[];
+  rationale?: string;
+  /** Whether the verdict came from a valid JSON reply */
+  structured: boolean;
+  /** Set when no classifier call was made: the prefilter, or the heuristics standing in for an open circuit */
+  source?: "prefilter" | "heuristics";
+}
+
+const MAX_EVIDENCE = 3;
+const MAX_EVIDENCE_CHARS = 200;
+const MAX_RATIONALE_CHARS = 300;
+
+/** Validate a parsed JSON verdict. Returns the verdict, or the first problem found. */
+export function validateVerdict(value: unknown): ClassifierVerdict | string {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "not an object";
+  const v = value as Record<string, unknown>;
+
+  const label = typeof v.label === "string" ? v.label.toUpperCase() : undefined;
+  if (label !== "SAFE" && label !== "INJECTION") return `label must be SAFE or INJECTION, got ${JSON.stringify(v.label)}`;
+
+  if (typeof v.confidence !== "number" || !(v.confidence >= 0 && v.confidence <= 1)) {
+    return `confidence must be a number from 0 to 1, got ${JSON.stringify(v.confidence)}`;
+  }
+
+  if (v.category !== undefined && !ATTACK_CATEGORIES.includes(v.category as AttackCategory)) {
+    return `category must be one of ${ATTACK_CATEGORIES.join(", ")}, got ${JSON.stringify(v.category)}`;
+  }
+
+  if (v.evidence !== undefined && !(Array.isArray(v.evidence) && v.evidence.every((e) => typeof e === "string"))) {
+    return "evidence must be an array of strings";
+  }
+
+  if (v.rationale !== undefined && typeof v.rationale !== "string") return "rationale must be a string";
+
+  const evidence = (v.evidence as string[] | undefined)
+    ?.filter((e) => e.trim())
+    .slice(0, MAX_EVIDENCE)
+    .map((e) => e.slice(0, MAX_EVIDENCE_CHARS));
+  return {
+    label,
+    confidence: v.confidence,
+    ...(v.category !== undefined && { category: v.category as AttackCategory }),
+    ...(evidence?.length && { evidence }),
+    ...(typeof v.rationale === "string" && v.rationale && { rationale: v.rationale.slice(0, MAX_RATIONALE_CHARS) }),
+    structured: true,
+  };
+}
+
+/** The first {...} object in a reply, allowing code fences and surrounding prose. */
+function extractJson(raw: string): unknown {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse an LLM reply: a valid JSON verdict, else the first word as a one-word
+ * verdict. Fails closed (INJECTION) on anything else.
+ */
+export function parseVerdict(raw: string): ClassifierVerdict {
+  const json = extractJson(raw);
+  if (json !== undefined) {
+    const verdict = validateVerdict(json);
+    if (typeof verdict !== "string") return verdict;
+    console.warn(`[content-guard] Invalid JSON verdict (${verdict}) — trying one-word reply`);
+  }
+
+  const word = raw.trim().split(/[\s\n]/)[0].toUpperCase();
+  if (word === "SAFE" || word === "INJECTION") return { label: word, confidence: 1, structured: false };
+  console.warn(
+    `[content-guard] Unexpected classifier response (fail closed): "${raw.trim()}"`,
+  );
+  return { label: "INJECTION", confidence: 1, structured: false };
+}
+
+/** Log summary of a verdict: label, confidence, category, source and evidence. */
+export function describeVerdict(verdict: ClassifierVerdict): string {
+  const details = [
+    ...(verdict.structured ? [verdict.confidence.toFixed(2)] : []),
+    ...(verdict.category && verdict.category !== "none" ? [verdict.category] : []),
+  ];
+  const evidence = verdict.evidence?.map((e) => JSON.stringify(e)).join(", ");
+  const source = verdict.source ? ` [${verdict.source}]` : "";
+  return `${verdict.label}${details.length ? ` (${details.join(", ")})` : ""}${source}${evidence ? ` — evidence: ${evidence}` : ""}`;
+}